@@ -1,12 +1,14 @@
 #!/usr/bin/env node
 import { loadConfig } from './lib/config'
-import { appendEvent, parseLog } from './lib/log'
+import { appendRecord, parseLog } from './lib/log'
 import { buildInjectionCommand, spawnDetached, requestBookmark, requestCompaction } from './lib/inject'
 import type { InjectionMethod, InjectionConfig } from './lib/inject'
 import { readStdin } from './lib/stdin'
 import { readSessionConfig } from './lib/session'
-import { shouldInjectBookmark, shouldCompact } from './lib/evaluate'
+import { shouldInjectBookmark, shouldCompact, injectionRecordFields } from './lib/evaluate'
 import { getContextPressure } from './lib/context-pressure'
+import { recordPressureSample } from './lib/pressure-history'
+import { isMutatingToolCall } from './lib/mutation'
 
 interface HookEvent {
   hook_event_name?: string
@@ -15,6 +17,8 @@ interface HookEvent {
   sessionId?: string
   tool_name?: string
   toolName?: string
+  tool_input?: Record<string, unknown>
+  toolInput?: Record<string, unknown>
   tool_response?: string
   toolResponse?: string
   toolOutput?: string
@@ -36,14 +40,47 @@ function measureSize(value: unknown): number {
   }
 }
 
-export function handlePostToolUse(sessionId: string, data: Record<string, unknown>, logDir?: string): void {
+/**
+ * Extras for a T record: the tool name and, for Task, the subagent type —
+ * so metrics can attribute pressure to the tools that drive it.
+ */
+export function toolRecordFields(data: Record<string, unknown>): Record<string, string> {
+  const fields: Record<string, string> = {}
+  const toolName = data.tool_name ?? data.toolName
+  if (typeof toolName === 'string' && toolName) fields.tool = toolName
+
+  const toolInput = (data.tool_input ?? data.toolInput) as Record<string, unknown> | undefined
+  const subagentType = toolInput?.subagent_type
+  if (toolName === 'Task' && typeof subagentType === 'string' && subagentType) fields.agent = subagentType
+  return fields
+}
+
+/**
+ * Logs the tool call. With mutation-boundary bookmarks enabled, a call that
+ * mutates files is tagged `mut=1`; when it ends a read-only run, the log
+ * fold keeps that boundary pending and Stop bookmarks it — mid-turn the
+ * marker can't be injected cleanly.
+ */
+export function handlePostToolUse(sessionId: string, data: Record<string, unknown>, logDir?: string, sessionStateDir?: string, configPath?: string): void {
   const charCount = measureSize(data.tool_response ?? data.toolResponse ?? data.toolOutput)
-  appendEvent(sessionId, `T ${Date.now()} ${charCount}`, logDir)
+  const fields = toolRecordFields(data)
+  const record = { type: 'T', ts: Date.now(), chars: charCount, fields }
+
+  const sessionConfig = readSessionConfig(sessionId, sessionStateDir)
+  const boundary = (sessionConfig?.cachedConfig || loadConfig(configPath)).bookmarks.mutationBoundary
+  if (!boundary.enabled) {
+    appendRecord(sessionId, record, logDir)
+    return
+  }
+
+  const toolInput = (data.tool_input ?? data.toolInput) as Record<string, unknown> | undefined
+  if (isMutatingToolCall(fields.tool ?? '', toolInput, boundary.mutatingTools)) fields.mut = '1'
+  appendRecord(sessionId, record, logDir)
 }
 
 export function handleSubagentStop(sessionId: string, data: Record<string, unknown>, logDir?: string, sessionStateDir?: string, configPath?: string): boolean {
   const charCount = measureSize(data.output ?? data.result ?? data.response ?? data.agent_output)
-  appendEvent(sessionId, `A ${Date.now()} ${charCount}`, logDir)
+  appendRecord(sessionId, { type: 'A', ts: Date.now(), chars: charCount, fields: {} }, logDir)
 
   const metrics = parseLog(sessionId, logDir)
 
@@ -63,6 +100,7 @@ export function handleSubagentStop(sessionId: string, data: Record<string, unkno
 
   // Context guard: proactive compaction injection (independent of bookmark)
   const pressure = getContextPressure(jsonlPath, metrics.cumulativeEstimatedTokens, config.contextGuard)
+  const forecast = recordPressureSample(sessionId, 'agent', pressure, config.contextGuard, metrics.lastCompactionAt, logDir)
 
   // Burst detection: 5+ agent returns in 10 seconds with elevated pressure.
   // During agent cascades the Stop hook never fires — SubagentStop is the only checkpoint.
@@ -80,7 +118,8 @@ export function handleSubagentStop(sessionId: string, data: Record<string, unkno
     pressure,
     config: config.contextGuard,
     metrics,
-    injectionMethod
+    injectionMethod,
+    forecast
   })
 
   if (compactEval.shouldCompact || burstCompact) {
@@ -99,7 +138,7 @@ export function handleSubagentStop(sessionId: string, data: Record<string, unkno
       method: injectionMethod,
       target: injectionTarget
     }
-    return requestBookmark(sessionId, injection, config.bookmarks.marker, declaredLocation, config, logDir)
+    return requestBookmark(sessionId, injection, config.bookmarks.marker, declaredLocation, config, logDir, injectionRecordFields(evaluation, metrics))
   }
 
   return false
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { appendEvent, parseLog } from './lib/log'
+import { appendRecord, parseLog } from './lib/log'
 import { readStdin } from './lib/stdin'
 import { readSessionConfig } from './lib/session'
 import { loadConfig } from './lib/config'
@@ -37,7 +37,7 @@ export function processPreCompact(
   // Append B marker — resets the activity window.
   // After compaction, old T/A lines represent tokens that no longer exist
   // in the context. The B marker ensures thresholds start from zero.
-  appendEvent(sessionId, `B ${Date.now()}`, logDir)
+  appendRecord(sessionId, { type: 'B', ts: Date.now(), fields: {} }, logDir)
 
   // Read session config for cached config and JSONL path
   const sessionConfig = readSessionConfig(sessionId, sessionStateDir)
@@ -1,15 +1,17 @@
 #!/usr/bin/env node
 import { loadConfig } from './lib/config'
 import type { TavConfig } from './lib/config'
-import { parseLog, appendEvent } from './lib/log'
+import { parseLog, appendRecord } from './lib/log'
 import type { LogMetrics } from './lib/log'
 import { buildInjectionCommand, spawnDetached, requestBookmark, requestCompaction } from './lib/inject'
 import type { InjectionMethod, InjectionConfig } from './lib/inject'
 import { isContextLimitStop, isUserAbort } from './lib/guards'
 import { readStdin } from './lib/stdin'
 import { readSessionConfig } from './lib/session'
-import { shouldInjectBookmark, shouldCompact } from './lib/evaluate'
+import { shouldInjectBookmark, shouldCompact, injectionRecordFields } from './lib/evaluate'
 import { getContextPressure } from './lib/context-pressure'
+import { recordPressureSample } from './lib/pressure-history'
+import { updateBookmarkIndex } from './lib/bookmark-index'
 
 /**
  * Evaluates whether to inject a bookmark after Claude's turn ends.
@@ -33,7 +35,7 @@ export function evaluateBookmark(
   }
 
   // Common evaluation (enabled, disabled, lastLineIsBookmark, cooldown, thresholds)
-  return shouldInjectBookmark({ config, metrics, injectionMethod })
+  return shouldInjectBookmark({ config, metrics, injectionMethod, turnEnded: true })
 }
 
 /**
@@ -79,17 +81,19 @@ async function main(): Promise<void> {
 
     if (evaluation.shouldInject) {
       const injection: InjectionConfig = { method: injectionMethod, target: injectionTarget }
-      requestBookmark(sessionId, injection, config.bookmarks.marker, declaredLocation, config)
+      requestBookmark(sessionId, injection, config.bookmarks.marker, declaredLocation, config, undefined, injectionRecordFields(evaluation, metrics))
     }
 
     // Context guard: proactive compaction injection (independent of bookmark)
     const pressure = getContextPressure(jsonlPath, metrics.cumulativeEstimatedTokens, config.contextGuard)
+    const forecast = recordPressureSample(sessionId, 'turn', pressure, config.contextGuard, metrics.lastCompactionAt)
 
     const compactEval = shouldCompact({
       pressure,
       config: config.contextGuard,
       metrics,
-      injectionMethod
+      injectionMethod,
+      forecast
     })
 
     if (compactEval.shouldCompact) {
@@ -97,6 +101,22 @@ async function main(): Promise<void> {
       requestCompaction(sessionId, injection, declaredLocation, config)
     }
 
+    // A finished turn has no foreground Task running — starts whose
+    // PostToolUse never came (denied, failed, interrupted) end here
+    if (Object.keys(metrics.runningAgents).length > 0) {
+      appendRecord(sessionId, { type: 'E', ts: Date.now(), fields: {} })
+    }
+
+    // Index bookmarks recorded so far — by Stop, this turn's marker entry
+    // has been written to the JSONL
+    if (jsonlPath && metrics.lastBookmarkAt > 0) {
+      try {
+        updateBookmarkIndex(sessionId, jsonlPath, config.bookmarks.marker)
+      } catch {
+        // Non-critical — retried on the next Stop
+      }
+    }
+
     // Always allow continuation
     console.log(JSON.stringify({ continue: true }))
   } catch (error) {
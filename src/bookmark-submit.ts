@@ -1,9 +1,12 @@
 #!/usr/bin/env node
 
 import { loadConfig } from './lib/config'
-import { appendEvent } from './lib/log'
+import type { TavConfig } from './lib/config'
+import { appendRecord, parseLog, INJECTION_LANDING_WINDOW_MS } from './lib/log'
 import { readStdin } from './lib/stdin'
 import { readSessionConfig } from './lib/session'
+import { getContextPressure } from './lib/context-pressure'
+import { parseBookmarkPrompt } from './lib/bookmark-index'
 
 interface StdinData {
   hook_event_name?: string
@@ -26,13 +29,14 @@ interface HookOutput {
 export function processBookmark(
   userPrompt: string,
   marker: string
-): { isBookmark: boolean; output: HookOutput } {
-  const trimmedPrompt = userPrompt.trim()
+): { isBookmark: boolean; label: string; output: HookOutput } {
+  const label = parseBookmarkPrompt(userPrompt, marker)
 
   // Not the marker — pass through
-  if (trimmedPrompt !== marker) {
+  if (label === null) {
     return {
       isBookmark: false,
+      label: '',
       output: { continue: true }
     }
   }
@@ -41,9 +45,11 @@ export function processBookmark(
   // The marker (· U+00B7 middle dot) is sufficiently uncommon that false
   // positives are negligible. Removing the anti-collision check also enables
   // manual bookmarks when terminal injection is unavailable — the user can
-  // simply type · to create a rewind anchor point at any time.
+  // simply type · to create a rewind anchor point at any time, optionally
+  // named (· before-migration) so it can be found again later.
   return {
     isBookmark: true,
+    label,
     output: {
       continue: true,
       hookSpecificOutput: {
@@ -55,6 +61,32 @@ export function processBookmark(
   }
 }
 
+/**
+ * Extras for a B record: the label; `inj=<ts>` linking it to the I record
+ * of the injection it completes (unlabelled bookmarks only — injections
+ * never carry a label); and context pressure at the bookmark. Everything
+ * but the label is best-effort — omitted on any error.
+ */
+export function bookmarkRecordFields(
+  sessionId: string,
+  label: string,
+  config: TavConfig,
+  jsonlPath: string | null,
+  logDir?: string
+): Record<string, string> {
+  const fields: Record<string, string> = label ? { label } : {}
+  try {
+    const metrics = parseLog(sessionId, logDir)
+    const pendingInjection = metrics.lastInjectionAt > metrics.lastBookmarkAt
+      && Date.now() - metrics.lastInjectionAt <= INJECTION_LANDING_WINDOW_MS
+    if (!label && pendingInjection) fields.inj = String(metrics.lastInjectionAt)
+    fields.pressure = getContextPressure(jsonlPath, metrics.cumulativeEstimatedTokens, config.contextGuard).toFixed(4)
+  } catch {
+    // Non-critical — the index shows unknown pressure
+  }
+  return fields
+}
+
 async function main(): Promise<void> {
   try {
     const input = await readStdin(2500)
@@ -68,11 +100,11 @@ async function main(): Promise<void> {
     const config = sessionConfig?.cachedConfig || loadConfig()
     const marker = config.bookmarks?.marker ?? '\u00B7'
 
-    const { isBookmark, output } = processBookmark(userPrompt, marker)
+    const { isBookmark, label, output } = processBookmark(userPrompt, marker)
 
-    // If bookmark confirmed, append B line to log
+    // If bookmark confirmed, append B line to log (with its label, if named)
     if (isBookmark) {
-      appendEvent(sessionId, `B ${Date.now()}`)
+      appendRecord(sessionId, { type: 'B', ts: Date.now(), fields: bookmarkRecordFields(sessionId, label, config, sessionConfig?.jsonlPath ?? null) })
     }
 
     console.log(JSON.stringify(output))
@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+
+/**
+ * `tav config` — inspect the configuration the hooks will use.
+ *
+ * Resolves config exactly like SessionStart (defaults → global → project → env)
+ * and reports what the validator did with every field, so typos that would
+ * otherwise silently fall back to defaults become visible.
+ *
+ * Usage:
+ *   bun run src/repair.ts config check   [--cwd DIR]
+ *   bun run src/repair.ts config show    [--cwd DIR]
+ *   bun run src/repair.ts config explain [--cwd DIR]
+ */
+
+import { resolveConfig } from './lib/config'
+import type { ResolvedConfig, ConfigIssue, ResolveConfigOptions } from './lib/config'
+
+// --- Formatting ---
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)'
+  return JSON.stringify(value)
+}
+
+function formatLayers(resolved: ResolvedConfig): string[] {
+  const lines = ['Config layers (lowest to highest priority):', '  default   built-in defaults']
+  for (const layer of resolved.layers) {
+    const status = layer.status === 'error' ? `error: ${layer.error}` : layer.status
+    lines.push(`  ${layer.source.padEnd(8)}  ${layer.location}  (${status})`)
+  }
+  return lines
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  const icon = issue.kind === 'rejected' ? '✘' : '⚠'
+  const outcome = issue.kind === 'rejected'
+    ? `rejected — ${issue.reason} (using ${formatValue(issue.result)})`
+    : issue.kind === 'coerced'
+      ? `coerced to ${formatValue(issue.result)} — ${issue.reason}`
+      : issue.reason
+  return `  ${icon} ${issue.path}: ${formatValue(issue.value)} ${outcome}  [${issue.source}]`
+}
+
+/**
+ * Counts problems that make `check` fail: rejected values and unreadable
+ * layer files. Coercions and legacy conversions are warnings only.
+ */
+export function countConfigErrors(resolved: ResolvedConfig): number {
+  return resolved.issues.filter(i => i.kind === 'rejected').length +
+    resolved.layers.filter(l => l.status === 'error').length
+}
+
+/**
+ * Human-readable validation report: layer status plus every coerced,
+ * rejected or converted field.
+ */
+export function formatConfigCheck(resolved: ResolvedConfig): string {
+  const lines = formatLayers(resolved)
+  lines.push('')
+
+  if (resolved.issues.length === 0) {
+    lines.push('No issues found.')
+  } else {
+    for (const issue of resolved.issues) {
+      lines.push(formatIssue(issue))
+    }
+  }
+
+  const errors = countConfigErrors(resolved)
+  const warnings = resolved.issues.length - resolved.issues.filter(i => i.kind === 'rejected').length
+  lines.push('')
+  lines.push(`${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`)
+  return lines.join('\n')
+}
+
+/**
+ * Effective merged TavConfig as pretty JSON.
+ */
+export function formatConfigShow(resolved: ResolvedConfig): string {
+  return JSON.stringify(resolved.config, null, 2)
+}
+
+/**
+ * Every effective field with the layer it came from, followed by the
+ * check report for fields that did not resolve as written.
+ */
+export function formatConfigExplain(resolved: ResolvedConfig): string {
+  const lines = formatLayers(resolved)
+  lines.push('')
+  lines.push('Effective values:')
+
+  const paths = Object.keys(resolved.sources)
+  const width = Math.max(...paths.map(p => p.length))
+  for (const path of paths) {
+    const value = path.split('.').reduce<unknown>(
+      (obj, key) => (obj as Record<string, unknown> | undefined)?.[key],
+      resolved.config
+    )
+    lines.push(`  ${path.padEnd(width)}  ${formatValue(value)}  [${resolved.sources[path]}]`)
+  }
+
+  if (resolved.issues.length > 0) {
+    lines.push('')
+    lines.push('Issues:')
+    for (const issue of resolved.issues) {
+      lines.push(formatIssue(issue))
+    }
+  }
+
+  return lines.join('\n')
+}
+
+// --- CLI ---
+
+function printUsage(): void {
+  console.log(`tav config — Inspect tav configuration
+
+Usage:
+  tav config check     Validate all config layers, report coerced/rejected fields
+  tav config show      Print the effective merged config as JSON
+  tav config explain   Show every field with the layer it came from
+
+Options:
+  --cwd DIR        Project directory for .claude/tav.json (default: current directory)`)
+}
+
+/**
+ * Runs a `tav config` subcommand and returns the process exit code.
+ * `check` exits 1 when any value was rejected or a layer file is unreadable.
+ */
+export function runConfigCommand(args: string[], options: ResolveConfigOptions = {}): number {
+  const subcommand = args[0]
+  if (!subcommand || args.includes('--help') || args.includes('-h')) {
+    printUsage()
+    return subcommand ? 0 : 1
+  }
+
+  const cwdIdx = args.indexOf('--cwd')
+  const cwd = cwdIdx !== -1 && args[cwdIdx + 1] ? args[cwdIdx + 1] : (options.cwd ?? process.cwd())
+  const resolved = resolveConfig({ ...options, cwd, quiet: true })
+
+  switch (subcommand) {
+    case 'check':
+      console.log(formatConfigCheck(resolved))
+      return countConfigErrors(resolved) > 0 ? 1 : 0
+    case 'show':
+      console.log(formatConfigShow(resolved))
+      return 0
+    case 'explain':
+      console.log(formatConfigExplain(resolved))
+      return 0
+    default:
+      console.error(`Unknown config command: ${subcommand}`)
+      printUsage()
+      return 1
+  }
+}
+
+if (require.main === module) {
+  process.exit(runConfigCommand(process.argv.slice(2)))
+}
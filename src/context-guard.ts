@@ -1,17 +1,26 @@
 #!/usr/bin/env node
 
+import { statSync } from 'fs'
+import { basename, extname, resolve } from 'path'
 import { loadConfig } from './lib/config'
-import type { TavConfig } from './lib/config'
-import { parseLog } from './lib/log'
+import type { TavConfig, ContextGuardConfig, GuardBand, AgentPolicy } from './lib/config'
+import { parseLog, appendRecord, UNKNOWN_AGENT } from './lib/log'
 import { readStdin } from './lib/stdin'
 import { readSessionConfig } from './lib/session'
-import { getContextPressure } from './lib/context-pressure'
+import { getContextSnapshot, estimateTokens, estimateResponsePressure } from './lib/context-pressure'
+import { readPressureHistory, forecastPressure, stepsUntilThreshold } from './lib/pressure-history'
+import type { PressureForecast } from './lib/pressure-history'
+import { forecastReaches } from './lib/evaluate'
+import { findToolPattern } from './lib/tool-match'
 
 interface PreToolUseInput {
   session_id?: string
   sessionId?: string
   tool_name?: string
   toolName?: string
+  tool_input?: Record<string, unknown>
+  toolInput?: Record<string, unknown>
+  cwd?: string
   [key: string]: unknown
 }
 
@@ -26,46 +35,266 @@ interface PreToolUseOutput {
 }
 
 /**
- * Evaluates whether a Task tool call should be denied due to context pressure.
+ * The guard's ladder: `contextGuard.bands`, or when none are configured the
+ * single classic band — deny Task at denyPercent.
+ */
+export function resolveGuardBands(guard: ContextGuardConfig): GuardBand[] {
+  if (guard.bands.length > 0) return guard.bands
+  // Task is CC's universal agent tool (Explorer, Plan, general-purpose are
+  // all subagent_type params to Task)
+  return [{ percent: guard.denyPercent, action: 'deny', tools: ['Task'], except: [], unboundedOnly: false }]
+}
+
+/**
+ * Whether a call reads a bounded slice: `limit` or `offset` in its input.
+ */
+function isBoundedCall(toolInput: Record<string, unknown>): boolean {
+  return toolInput.limit !== undefined || toolInput.offset !== undefined
+}
+
+/**
+ * Whether a band covers this call, regardless of pressure.
+ */
+export function bandAppliesTo(band: GuardBand, toolName: string, toolInput: Record<string, unknown> = {}): boolean {
+  if (findToolPattern(band.tools, toolName) === null) return false
+  if (findToolPattern(band.except, toolName) !== null) return false
+  return !band.unboundedOnly || !isBoundedCall(toolInput)
+}
+
+/**
+ * The subagent type of a Task call, as logged on its S and T records;
+ * undefined when the input has none.
+ */
+export function subagentTypeOf(toolInput: Record<string, unknown>): string | undefined {
+  const subagentType = toolInput.subagent_type
+  return typeof subagentType === 'string' && subagentType ? subagentType : undefined
+}
+
+/**
+ * The agentPolicy entry that governs a subagent type — an exact key, else
+ * the most specific matching glob — or null when none does.
+ */
+export function resolveAgentPolicy(guard: ContextGuardConfig, agentType: string): { key: string; policy: AgentPolicy } | null {
+  const key = findToolPattern(Object.keys(guard.agentPolicy), agentType)
+  return key === null ? null : { key, policy: guard.agentPolicy[key] }
+}
+
+/**
+ * Running agents governed by the policy `key`: those of every type that
+ * resolves to it, so a "*" policy caps all otherwise unlisted types together.
+ */
+function runningUnderPolicy(guard: ContextGuardConfig, key: string, runningAgents: Record<string, number>): number {
+  const keys = Object.keys(guard.agentPolicy)
+  return Object.entries(runningAgents)
+    .filter(([agentType]) => findToolPattern(keys, agentType) === key)
+    .reduce((sum, [, count]) => sum + count, 0)
+}
+
+const AGENT_DENY_CONTEXT =
+  '<system-reminder>Context pressure is critically high. Do NOT spawn new subagents. ' +
+  'Instead: (1) complete current work, (2) write large outputs to files rather than returning them inline, ' +
+  '(3) wait for /compact to reduce context size. The context guard has denied this Task call to prevent session death.</system-reminder>'
+
+function denyOutput(toolName: string, reason: string): PreToolUseOutput {
+  const additionalContext = toolName === 'Task'
+    ? AGENT_DENY_CONTEXT
+    : `<system-reminder>Context pressure is critically high. The context guard has denied this ${toolName} call to prevent session death. ` +
+      'Finish current work with small, targeted calls (Read with limit/offset), write large outputs to files, and wait for /compact.</system-reminder>'
+  return {
+    continue: true,
+    permissionDecision: 'deny',
+    reason,
+    hookSpecificOutput: { hookEventName: 'PreToolUse', additionalContext },
+  }
+}
+
+/** What the model should do instead of the denied call */
+function denyAdvice(toolName: string, band: GuardBand): string {
+  if (toolName === 'Task') return 'Run /compact before spawning new agents.'
+  if (band.unboundedOnly) return `Run /compact, or narrow the ${toolName} call with limit/offset.`
+  return `Run /compact before calling ${toolName}.`
+}
+
+/**
+ * Evaluates a tool call against the guard's bands (see resolveGuardBands).
  * Pure function for testability — no I/O, no side effects.
  * Receives pre-computed pressure ratio (0–1) rather than computing it internally.
+ *
+ * A deny band that covers the call and is reached denies it; the highest
+ * such band names the threshold. With forecastHorizon > 0, a deny band the
+ * pressure trend is forecast to reach within that many turns/agent returns
+ * also denies. Otherwise a reached warn band adds a reminder as
+ * additionalContext and lets the call through.
+ *
+ * A Task whose subagent_type has an agentPolicy is first checked against
+ * the policy's maxConcurrent (using `runningAgents`, see parseLog), and the
+ * policy's denyPercent replaces the threshold of deny bands that list Task.
  */
 export function evaluateContextPressure(
   config: TavConfig,
   pressure: number,
-  toolName: string
+  toolName: string,
+  forecast?: PressureForecast | null,
+  toolInput: Record<string, unknown> = {},
+  runningAgents: Record<string, number> = {}
 ): PreToolUseOutput {
-  // Intercept all agent spawns — Task is CC's universal agent tool
-  // (Explorer, Plan, general-purpose are all subagent_type params to Task)
-  if (toolName !== 'Task') {
+  if (!config.contextGuard.enabled) {
     return { continue: true }
   }
 
-  if (!config.contextGuard.enabled) {
-    return { continue: true }
+  const agentType = toolName === 'Task' ? subagentTypeOf(toolInput) ?? UNKNOWN_AGENT : null
+  const agent = agentType === null ? null : resolveAgentPolicy(config.contextGuard, agentType)
+  const maxConcurrent = agent?.policy.maxConcurrent ?? 0
+  if (agent && maxConcurrent > 0) {
+    const running = runningUnderPolicy(config.contextGuard, agent.key, runningAgents)
+    if (running >= maxConcurrent) {
+      return {
+        continue: true,
+        permissionDecision: 'deny',
+        reason: `${running} ${agentType} agent${running === 1 ? ' is' : 's are'} already running (max ${maxConcurrent}). Wait for one to return before spawning another.`,
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          additionalContext:
+            `<system-reminder>The context guard allows at most ${maxConcurrent} ${agentType} agent${maxConcurrent === 1 ? '' : 's'} at a time. ` +
+            'Wait for a running agent to return, or do this work directly.</system-reminder>',
+        },
+      }
+    }
   }
 
-  // Compare pressure ratio against deny percentage
-  if (pressure >= config.contextGuard.denyPercent) {
-    const pressurePct = (pressure * 100).toFixed(0)
-    const thresholdPct = (config.contextGuard.denyPercent * 100).toFixed(0)
+  const policyPercent = agent?.policy.denyPercent
+  const bands = resolveGuardBands(config.contextGuard)
+    .map(band => policyPercent !== undefined && band.action === 'deny' && band.tools.includes('Task')
+      ? { ...band, percent: policyPercent }
+      : band)
+    .filter(band => bandAppliesTo(band, toolName, toolInput))
+    .sort((a, b) => b.percent - a.percent)
+  const pressurePct = (pressure * 100).toFixed(0)
+  const pct = (ratio: number) => (ratio * 100).toFixed(0)
+
+  const reachedDeny = bands.find(band => band.action === 'deny' && pressure >= band.percent)
+  if (reachedDeny) {
+    return denyOutput(toolName,
+      `Context pressure critical: ${pressurePct}% (threshold: ${pct(reachedDeny.percent)}%). ${denyAdvice(toolName, reachedDeny)}`)
+  }
+
+  if (forecast) {
+    // Lowest band first: the nearest threshold is the one reached soonest
+    for (const band of [...bands].reverse()) {
+      if (band.action !== 'deny') continue
+      const steps = stepsUntilThreshold(forecast, band.percent)
+      if (forecastReaches(pressure, band.percent, steps, config.contextGuard)) {
+        return denyOutput(toolName,
+          `Context pressure ${pressurePct}% is forecast to reach ${pct(band.percent)}% within ${steps} step${steps === 1 ? '' : 's'}. ${denyAdvice(toolName, band)}`)
+      }
+    }
+  }
+
+  const warn = bands.find(band => band.action === 'warn' && pressure >= band.percent)
+  if (warn) {
     return {
       continue: true,
-      permissionDecision: 'deny',
-      reason: `Context pressure critical: ${pressurePct}% (threshold: ${thresholdPct}%). Run /compact before spawning new agents.`,
       hookSpecificOutput: {
         hookEventName: 'PreToolUse',
         additionalContext:
-          '<system-reminder>Context pressure is critically high. Do NOT spawn new subagents. ' +
-          'Instead: (1) complete current work, (2) write large outputs to files rather than returning them inline, ' +
-          '(3) wait for /compact to reduce context size. The context guard has denied this Task call to prevent session death.</system-reminder>'
-      }
+          `<system-reminder>Context pressure is ${pressurePct}% (warning from ${pct(warn.percent)}%). ` +
+          'Prefer targeted reads with limit/offset, avoid spawning agents, and keep outputs short so the session lasts until /compact.</system-reminder>',
+      },
     }
   }
 
   return { continue: true }
 }
 
+/**
+ * Images are sent to the model as pictures, not text — their file size
+ * says nothing about their token cost.
+ */
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp']
+
+/** Size and estimated cost of the file a Read call would load whole */
+export interface ReadCost {
+  path: string
+  bytes: number
+  tokens: number      // estimated tokens of the contents (estimateTokens)
+  pressure: number    // pressure those tokens would add (estimateResponsePressure)
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.ceil(bytes / 1024)} KB`
+}
+
+/**
+ * Evaluates a whole-file Read against the remaining context: when adding the
+ * file's estimated cost to `pressure` would reach denyPercent, the call is
+ * denied (or, with readGuard 'warn', let through) with advice to read a
+ * slice. Returns null when the guard has nothing to say.
+ * Pure function for testability — the caller stats the file.
+ */
+export function evaluateReadCost(
+  config: TavConfig,
+  pressure: number,
+  cost: ReadCost,
+  toolInput: Record<string, unknown> = {}
+): PreToolUseOutput | null {
+  const guard = config.contextGuard
+  if (!guard.enabled || guard.readGuard === 'off' || isBoundedCall(toolInput)) return null
+
+  const projected = pressure + cost.pressure
+  if (projected < guard.denyPercent) return null
+
+  const name = basename(cost.path)
+  const reason =
+    `Reading ${name} (${formatBytes(cost.bytes)}, ~${cost.tokens} tokens) would push context pressure ` +
+    `from ${(pressure * 100).toFixed(0)}% to ${(projected * 100).toFixed(0)}% (threshold: ${(guard.denyPercent * 100).toFixed(0)}%). ` +
+    'Read it in slices with limit/offset, or search it with Grep.'
+  const additionalContext =
+    `<system-reminder>${name} is too large to read whole at the current context pressure. ` +
+    'Use Read with limit/offset on the part you need, or Grep for what you are looking for.</system-reminder>'
+
+  if (guard.readGuard === 'warn') {
+    return { continue: true, hookSpecificOutput: { hookEventName: 'PreToolUse', additionalContext: `${additionalContext}\n${reason}` } }
+  }
+  return {
+    continue: true,
+    permissionDecision: 'deny',
+    reason,
+    hookSpecificOutput: { hookEventName: 'PreToolUse', additionalContext },
+  }
+}
+
+/**
+ * A band result with the read-cost result applied over it. A band's
+ * warning is kept ahead of the read advice rather than replaced by it.
+ */
+export function combineGuardOutputs(band: PreToolUseOutput, read: PreToolUseOutput | null): PreToolUseOutput {
+  if (!read) return band
+  const bandContext = band.hookSpecificOutput?.additionalContext
+  if (!bandContext || !read.hookSpecificOutput) return read
+  return {
+    ...read,
+    hookSpecificOutput: { ...read.hookSpecificOutput, additionalContext: `${bandContext}\n${read.hookSpecificOutput.additionalContext}` },
+  }
+}
+
+/**
+ * Size of the regular file a Read call targets, or null when there is
+ * nothing to measure (no path, missing file, directory, image).
+ */
+function statReadTarget(toolInput: Record<string, unknown>, cwd: string): { path: string; bytes: number } | null {
+  const filePath = toolInput.file_path
+  if (typeof filePath !== 'string' || !filePath) return null
+  if (IMAGE_EXTENSIONS.includes(extname(filePath).toLowerCase())) return null
+  try {
+    const path = resolve(cwd, filePath)
+    const stats = statSync(path)
+    return stats.isFile() ? { path, bytes: stats.size } : null
+  } catch {
+    return null
+  }
+}
+
 async function main(): Promise<void> {
   try {
     const input = await readStdin(2500)
@@ -79,8 +308,6 @@ async function main(): Promise<void> {
       return
     }
 
-    const metrics = parseLog(sessionId)
-
     // Read session config ONCE — provides cached config and JSONL path
     const sessionConfig = readSessionConfig(sessionId)
 
@@ -88,9 +315,54 @@ async function main(): Promise<void> {
     // Fallback to loadConfig() only if session started before config caching was implemented
     const config = sessionConfig?.cachedConfig || loadConfig()
     const jsonlPath = sessionConfig?.jsonlPath ?? null
+    const toolInput = data.tool_input ?? data.toolInput ?? {}
 
-    const pressure = getContextPressure(jsonlPath, metrics.cumulativeEstimatedTokens, config.contextGuard)
-    const result = evaluateContextPressure(config, pressure, toolName)
+    // The hook runs on every tool call — with the guard off, do nothing else
+    if (!config.contextGuard.enabled) {
+      console.log(JSON.stringify({ continue: true }))
+      return
+    }
+
+    const readTarget = toolName === 'Read' && config.contextGuard.readGuard !== 'off' && !isBoundedCall(toolInput)
+      ? statReadTarget(toolInput, data.cwd ?? process.cwd())
+      : null
+
+    // Skip measuring pressure for calls no guard covers
+    const hasAgentPolicy = toolName === 'Task' && Object.keys(config.contextGuard.agentPolicy).length > 0
+    if (!readTarget && !hasAgentPolicy &&
+        !resolveGuardBands(config.contextGuard).some(band => bandAppliesTo(band, toolName, toolInput))) {
+      console.log(JSON.stringify({ continue: true }))
+      return
+    }
+
+    const metrics = parseLog(sessionId)
+
+    const snapshot = getContextSnapshot(jsonlPath, metrics.cumulativeEstimatedTokens, config.contextGuard)
+    const pressure = snapshot.pressure
+    const forecast = config.contextGuard.forecastHorizon > 0
+      ? forecastPressure(readPressureHistory(sessionId), config.contextGuard, metrics.lastCompactionAt)
+      : null
+    let result = evaluateContextPressure(config, pressure, toolName, forecast, toolInput, metrics.runningAgents)
+
+    // A band's deny stands; otherwise a Read too large for what's left is denied or warned about
+    if (readTarget && result.permissionDecision !== 'deny') {
+      const cost = {
+        ...readTarget,
+        tokens: estimateTokens(readTarget.bytes),
+        pressure: estimateResponsePressure(readTarget.bytes, snapshot, config.contextGuard),
+      }
+      result = combineGuardOutputs(result, evaluateReadCost(config, pressure, cost, toolInput))
+    }
+
+    // An allowed Task starts an agent; its PostToolUse T record ends it (runningAgents)
+    if (toolName === 'Task' && result.permissionDecision !== 'deny') {
+      const agentType = subagentTypeOf(toolInput)
+      try {
+        appendRecord(sessionId, { type: 'S', ts: Date.now(), fields: agentType ? { agent: agentType } : {} })
+      } catch {
+        // Uncounted agent — the decision still stands
+      }
+    }
 
     console.log(JSON.stringify(result))
   } catch {
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+
+/**
+ * Detached injector: drains a session's injection queue, one command at a
+ * time. Spawned by requestBookmark/requestCompaction after they queue a
+ * request; exits at once when another injector already holds the lock.
+ *
+ * Usage:
+ *   inject-runner <sessionId> [stateDir]
+ */
+
+import { execSync } from 'child_process'
+import { drainInjectionQueue } from './lib/inject-queue'
+
+/** Upper bound for one injection command (delay + send) */
+const COMMAND_TIMEOUT_MS = 15000
+
+export function runInjector(sessionId: string, stateDir?: string): number {
+  return drainInjectionQueue(sessionId, command => {
+    execSync(command, { stdio: 'ignore', timeout: COMMAND_TIMEOUT_MS })
+  }, stateDir)
+}
+
+if (require.main === module) {
+  const [sessionId, stateDir] = process.argv.slice(2)
+  try {
+    if (sessionId) runInjector(sessionId, stateDir || undefined)
+  } catch {
+    // Detached — nobody to report to
+  }
+  process.exit(0)
+}
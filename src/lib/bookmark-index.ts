@@ -0,0 +1,346 @@
+import { openSync, fstatSync, readSync, closeSync, readFileSync, writeFileSync, renameSync } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+import { sanitizeSessionId, ensureStateDir, getLogPath, parseRecord } from './log'
+import type { JournalEntry } from './jsonl-types'
+
+const DEFAULT_STATE_DIR = join(homedir(), '.claude', 'tav', 'state')
+
+/** Longest label accepted after the marker; longer text is a real prompt */
+export const MAX_BOOKMARK_LABEL_LENGTH = 80
+
+/** Reason recorded for bookmarks the user typed rather than tav injected */
+export const MANUAL_REASON = 'manual'
+
+const INDEX_VERSION = 2
+
+/**
+ * A B record lands in the log when UserPromptSubmit fires; the JSONL entry
+ * is written around the same moment. Pairs further apart than this are
+ * unrelated (e.g. a PreCompact B, or a marker inserted by `tav repair`).
+ */
+const MATCH_WINDOW_MS = 60000
+
+const SCAN_CHUNK_BYTES = 1024 * 1024
+
+/**
+ * One bookmark as a rewind point: the JSONL user entry holding the marker,
+ * joined with what the activity log knew when it was recorded. `reason` is
+ * the threshold that triggered the injection ('manual' when typed), and
+ * reason/pressure are null when no matching B record was found.
+ */
+export interface BookmarkIndexEntry {
+  number: number            // 1-based, in session order
+  uuid: string              // JSONL entry uuid — the rewind target
+  timestamp: string         // JSONL entry timestamp (ISO)
+  label: string | null
+  reason: string | null
+  pressure: number | null   // context pressure (0–1) when the bookmark was recorded
+}
+
+/** What the activity log recorded for one B record */
+interface BookmarkRecord {
+  ts: number
+  label: string | null
+  reason: string | null
+  pressure: number | null
+}
+
+/**
+ * The activity log as folded so far: the byte offset already read, the B
+ * records collected, and the injection state a later B still needs.
+ */
+interface BookmarkLogScan {
+  scan: { ino: number; offset: number }
+  records: BookmarkRecord[]
+  injectionReasons: Record<string, string | null>   // I record ts → reason
+  injected: boolean
+  pendingReason: string | null
+}
+
+/**
+ * Per-session bookmark index, persisted as `<session>.bookmarks.json`.
+ * `scan` is the JSONL byte offset already scanned and `log` the activity
+ * log's, so updates only read what was appended to either since.
+ */
+export interface BookmarkIndex {
+  version: number
+  jsonlPath: string | null
+  scan: { ino: number; offset: number }
+  log: BookmarkLogScan
+  bookmarks: BookmarkIndexEntry[]
+}
+
+/**
+ * Matches a bookmark prompt: the marker alone, or the marker followed by
+ * whitespace and a one-line label (`· before-migration`). Returns the label
+ * ('' for an anonymous bookmark), or null when the prompt is not a bookmark.
+ */
+export function parseBookmarkPrompt(userPrompt: string, marker: string): string | null {
+  const trimmedPrompt = userPrompt.trim()
+  if (trimmedPrompt === marker) return ''
+  if (!trimmedPrompt.startsWith(marker)) return null
+
+  const rest = trimmedPrompt.slice(marker.length)
+  if (!/^[ \t]/.test(rest) || rest.includes('\n')) return null
+
+  const label = rest.trim().replace(/\s+/g, ' ')
+  return label.length <= MAX_BOOKMARK_LABEL_LENGTH ? label : null
+}
+
+export function getBookmarkIndexPath(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): string {
+  return join(stateDir, `${sanitizeSessionId(sessionId)}.bookmarks.json`)
+}
+
+function emptyLogScan(): BookmarkLogScan {
+  return { scan: { ino: 0, offset: 0 }, records: [], injectionReasons: {}, injected: false, pendingReason: null }
+}
+
+function emptyIndex(jsonlPath: string | null): BookmarkIndex {
+  return { version: INDEX_VERSION, jsonlPath, scan: { ino: 0, offset: 0 }, log: emptyLogScan(), bookmarks: [] }
+}
+
+/**
+ * Reads the persisted index. Returns null when missing, unreadable or from
+ * another format version.
+ */
+export function readBookmarkIndex(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): BookmarkIndex | null {
+  try {
+    const index = JSON.parse(readFileSync(getBookmarkIndexPath(sessionId, stateDir), 'utf-8')) as BookmarkIndex
+    if (index.version !== INDEX_VERSION || !Array.isArray(index.bookmarks) || !index.log) return null
+    return index
+  } catch {
+    return null
+  }
+}
+
+function writeBookmarkIndex(sessionId: string, index: BookmarkIndex, stateDir: string): void {
+  ensureStateDir(stateDir)
+  const path = getBookmarkIndexPath(sessionId, stateDir)
+  const tmpPath = path + '.tmp'
+  writeFileSync(tmpPath, JSON.stringify(index, null, 2), 'utf-8')
+  renameSync(tmpPath, path)
+}
+
+/** Text of a user message: a plain string, or its text blocks joined */
+function messageText(content: unknown): string | null {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return null
+  const texts = content
+    .filter((block): block is { type: 'text'; text: string } => block?.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text)
+  return texts.length > 0 ? texts.join('\n') : null
+}
+
+/**
+ * The bookmark label of a JSONL entry: '' for a bare marker, the label for
+ * `· <label>`, or null when the entry is not a user bookmark message.
+ * Matches real bookmarks and ones inserted by `tav repair` alike.
+ */
+export function entryBookmarkLabel(entry: JournalEntry, marker: string): string | null {
+  if (entry.type !== 'user') return null
+  const text = messageText(entry.message?.content)
+  return text === null ? null : parseBookmarkPrompt(text, marker)
+}
+
+/**
+ * Bookmark entries among JSONL lines: main-chain user messages whose text
+ * is a bookmark prompt. Lines without the marker are skipped unparsed —
+ * session JSONL runs to tens of megabytes.
+ */
+function scanMarkerEntries(lines: string[], marker: string): Array<Omit<BookmarkIndexEntry, 'number' | 'reason' | 'pressure'>> {
+  const escapedMarker = JSON.stringify(marker).slice(1, -1)
+  const found: Array<Omit<BookmarkIndexEntry, 'number' | 'reason' | 'pressure'>> = []
+
+  for (const line of lines) {
+    if (!line.includes(marker) && !line.includes(escapedMarker)) continue
+    let entry: JournalEntry
+    try {
+      entry = JSON.parse(line) as JournalEntry
+    } catch {
+      continue
+    }
+    if (entry.isSidechain || !entry.uuid) continue
+
+    const label = entryBookmarkLabel(entry, marker)
+    if (label === null) continue
+
+    found.push({ uuid: entry.uuid, timestamp: entry.timestamp ?? '', label: label || null })
+  }
+  return found
+}
+
+/**
+ * Reads complete lines appended to a file since `scan`. Starts over from
+ * the beginning (`rescan`) when the file was replaced (inode changed) or
+ * shrank below the offset. A trailing partial line (Claude Code mid-write)
+ * is left for the next scan. Returns null when the file can't be read.
+ */
+function readAppendedLines(
+  path: string,
+  scan: BookmarkIndex['scan']
+): { scan: BookmarkIndex['scan']; lines: string[]; rescan: boolean } | null {
+  let fd: number | null = null
+  try {
+    fd = openSync(path, 'r')
+    const { ino, size } = fstatSync(fd)
+    const rescan = scan.offset > size || (scan.ino !== 0 && scan.ino !== ino)
+    let position = rescan ? 0 : scan.offset
+    let consumed = position
+    const lines: string[] = []
+    let carry = Buffer.alloc(0)
+    const buffer = Buffer.alloc(Math.min(SCAN_CHUNK_BYTES, Math.max(size - position, 1)))
+
+    while (position < size) {
+      const n = readSync(fd, buffer, 0, Math.min(buffer.length, size - position), position)
+      if (n === 0) break
+      position += n
+      // Split on newline bytes, not decoded text — a chunk boundary may
+      // fall inside a multi-byte character
+      const data = Buffer.concat([carry, buffer.subarray(0, n)])
+      const end = data.lastIndexOf(0x0a)
+      if (end === -1) {
+        carry = data
+        continue
+      }
+      lines.push(...data.toString('utf-8', 0, end).split('\n'))
+      consumed += end + 1
+      carry = Buffer.from(data.subarray(end + 1))
+    }
+
+    return { scan: { ino, offset: consumed }, lines, rescan }
+  } catch {
+    return null
+  } finally {
+    if (fd !== null) closeSync(fd)
+  }
+}
+
+/**
+ * Folds activity log lines into `log`, collecting B records with the reason
+ * that produced them. A B with `inj=<ts>` takes the `reason=` of that I
+ * record. Older logs have no link, so the I (injection) since the previous
+ * B is used instead. Labelled bookmarks, and ones with no injection before
+ * them, are 'manual'.
+ */
+function collectBookmarkRecords(log: BookmarkLogScan, lines: string[]): void {
+  for (const line of lines) {
+    const record = parseRecord(line)
+    if (!record) continue
+
+    if (record.type === 'I') {
+      log.injected = true
+      log.pendingReason = record.fields.reason ?? null
+      log.injectionReasons[record.ts] = log.pendingReason
+    } else if (record.type === 'B' && !isNaN(record.ts)) {
+      const label = record.fields.label || null
+      const pressure = parseFloat(record.fields.pressure)
+      const linked = record.fields.inj ? parseInt(record.fields.inj, 10) : NaN
+      const reason = !isNaN(linked) ? log.injectionReasons[linked] ?? null
+        : label || !log.injected ? MANUAL_REASON : log.pendingReason
+      log.records.push({
+        ts: record.ts,
+        label,
+        reason,
+        pressure: Number.isFinite(pressure) ? pressure : null,
+      })
+      log.injected = false
+      log.pendingReason = null
+    }
+  }
+}
+
+/**
+ * Joins index entries with B records: each entry takes the unused record
+ * with the same label closest in time, within MATCH_WINDOW_MS. Entries
+ * with no match keep what an earlier update found (the log may since have
+ * been cleaned up).
+ */
+function joinRecords(entries: BookmarkIndexEntry[], records: BookmarkRecord[]): void {
+  const used = new Set<number>()
+  for (const entry of entries) {
+    const entryTs = Date.parse(entry.timestamp)
+    if (isNaN(entryTs)) continue
+
+    let best = -1
+    for (let i = 0; i < records.length; i++) {
+      const distance = Math.abs(records[i].ts - entryTs)
+      if (used.has(i) || records[i].label !== entry.label || distance > MATCH_WINDOW_MS) continue
+      if (best === -1 || distance < Math.abs(records[best].ts - entryTs)) best = i
+    }
+    if (best === -1) continue
+
+    used.add(best)
+    entry.reason = records[best].reason
+    entry.pressure = records[best].pressure
+  }
+}
+
+/**
+ * Brings the session's bookmark index up to date and returns it: scans the
+ * JSONL from where the last update stopped for marker entries, folds the
+ * activity log lines appended since for B records, then joins every entry
+ * with the B records. Either file is re-scanned from the start when its
+ * inode changed or it shrank (rewritten), and the JSONL also when its path
+ * changed.
+ * Returns the stored index unchanged when the JSONL can't be read.
+ */
+export function updateBookmarkIndex(
+  sessionId: string,
+  jsonlPath: string,
+  marker: string,
+  stateDir: string = DEFAULT_STATE_DIR
+): BookmarkIndex {
+  const stored = readBookmarkIndex(sessionId, stateDir)
+  let index = stored && stored.jsonlPath === jsonlPath ? stored : emptyIndex(jsonlPath)
+
+  const appended = readAppendedLines(jsonlPath, index.scan)
+  if (!appended) return stored ?? index
+
+  if (appended.rescan) {
+    // Keep what earlier updates joined — the log may no longer have it
+    const previous = new Map(index.bookmarks.map(b => [b.uuid, b]))
+    index = { ...emptyIndex(jsonlPath), log: index.log }
+    index.bookmarks = scanMarkerEntries(appended.lines, marker).map((found, i) => ({
+      ...found,
+      number: i + 1,
+      reason: previous.get(found.uuid)?.reason ?? null,
+      pressure: previous.get(found.uuid)?.pressure ?? null,
+    }))
+  } else {
+    for (const found of scanMarkerEntries(appended.lines, marker)) {
+      index.bookmarks.push({ ...found, number: index.bookmarks.length + 1, reason: null, pressure: null })
+    }
+  }
+  index.scan = appended.scan
+
+  const appendedLog = readAppendedLines(getLogPath(sessionId, stateDir), index.log.scan)
+  if (appendedLog) {
+    if (appendedLog.rescan) index.log = emptyLogScan()
+    collectBookmarkRecords(index.log, appendedLog.lines)
+    index.log.scan = appendedLog.scan
+  }
+  joinRecords(index.bookmarks, index.log.records)
+
+  try {
+    writeBookmarkIndex(sessionId, index, stateDir)
+  } catch {
+    // Non-critical — the index is rebuilt on the next update
+  }
+  return index
+}
+
+/**
+ * Looks up a bookmark by number (`7`), label (latest bookmark with that
+ * label) or uuid prefix. Returns null when nothing matches.
+ */
+export function findBookmark(index: BookmarkIndex, ref: string): BookmarkIndexEntry | null {
+  if (/^\d+$/.test(ref)) {
+    return index.bookmarks.find(b => b.number === parseInt(ref, 10)) ?? null
+  }
+
+  const labelled = index.bookmarks.filter(b => b.label === ref)
+  if (labelled.length > 0) return labelled[labelled.length - 1]
+
+  return index.bookmarks.find(b => b.uuid.startsWith(ref)) ?? null
+}
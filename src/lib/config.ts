@@ -1,6 +1,7 @@
 import { readFileSync } from 'fs'
 import { join } from 'path'
 import { homedir } from 'os'
+import { isDeepStrictEqual } from 'util'
 
 export interface ThresholdConfig {
   minTokens: number
@@ -8,21 +9,74 @@ export interface ThresholdConfig {
   minSeconds: number
   agentBurstThreshold: number
   cooldownSeconds: number
+  toolWeights: Record<string, number>  // tool name or glob (e.g. "mcp__*") → weight toward minToolCalls; unlisted tools weigh 1
+}
+
+/**
+ * Bookmark when the first mutating tool follows a run of read-only tools —
+ * the point right before Claude starts editing files again.
+ */
+export interface MutationBoundaryConfig {
+  enabled: boolean
+  mutatingTools: string[]   // tool names or globs; Bash counts only when its command writes
+  minReadOnlyRun: number    // read-only tool calls required before the mutation (default: 3)
+}
+
+/**
+ * Re-inject a bookmark whose marker never arrived (no B record within the
+ * landing window — user was typing, pane in copy-mode, ...).
+ */
+export interface RetryConfig {
+  enabled: boolean
+  maxAttempts: number   // retries per lost injection run; resets when a marker lands (default: 1)
 }
 
 export interface BookmarkConfig {
   enabled: boolean
   marker: string
   thresholds: ThresholdConfig
+  mutationBoundary: MutationBoundaryConfig
+  retry: RetryConfig
 }
 
 export interface ContextGuardConfig {
   enabled: boolean
-  contextWindowTokens: number    // nominal context window size (default: 200000)
+  contextWindowTokens: number    // window size override; 0 = auto-detect from the session's model (default: 0)
+  modelContextWindows: Record<string, number>  // model id prefix → window size; longest matching prefix wins
   compactPercent: number         // trigger /compact at this pressure ratio (default: 0.76)
   denyPercent: number            // deny agent spawns at this pressure ratio (default: 0.85)
   compactCooldownSeconds: number
   responseRatio: number          // chars-to-tokens ratio for fallback estimation (default: 0.25 = chars/4)
+  forecastHorizon: number        // act when a threshold is forecast within this many turns/agent returns; 0 = off (default: 0)
+  bands: GuardBand[]             // graduated actions by pressure; [] = deny Task at denyPercent (default: [])
+  readGuard: ReadGuardAction     // Read of a whole file that would push pressure past denyPercent (default: 'deny')
+  agentPolicy: Record<string, AgentPolicy>  // Task subagent_type (or glob) → policy (default: {})
+}
+
+/**
+ * Context guard rules for one subagent type. Unset fields fall back to the
+ * rules for every Task.
+ */
+export interface AgentPolicy {
+  denyPercent?: number     // replaces the threshold of deny bands that list Task (by default, denyPercent)
+  maxConcurrent?: number   // deny while this many agents of the type are running; 0 = unlimited
+}
+
+/** What the guard does about a Read too large for the remaining context */
+export type ReadGuardAction = 'deny' | 'warn' | 'off'
+
+export type GuardBandAction = 'warn' | 'deny'
+
+/**
+ * One step of the context guard ladder. From `percent` pressure on, calls
+ * to matching tools get a warning (additionalContext) or are denied.
+ */
+export interface GuardBand {
+  percent: number          // pressure ratio the band starts at
+  action: GuardBandAction
+  tools: string[]          // tool names or globs the band covers (default: ["*"])
+  except: string[]         // tool names or globs exempt from the band (default: [])
+  unboundedOnly: boolean   // only calls without limit/offset in tool_input, e.g. a whole-file Read (default: false)
 }
 
 export interface SessionLocationConfig {
@@ -38,12 +92,35 @@ export interface SessionLocationConfig {
   }
 }
 
+export interface InjectionOptionsConfig {
+  preflight: boolean             // check the tmux pane is idle with an empty prompt before sending keys (default: true)
+  command: string                // custom injection command template with {target} and {text}; '' = detect the terminal (default: '')
+  target: string                 // value substituted for {target} in command (default: '')
+  delaySeconds: number           // wait before sending keys; capped at 10 (default: 1.5)
+  adaptive: boolean              // poll the pane (tmux, wezterm, kitty) until Claude's prompt is idle instead (default: false)
+  adaptiveTimeoutSeconds: number // longest adaptive wait before sending anyway; capped at 10 (default: 10)
+}
+
 export interface TavConfig {
   bookmarks: BookmarkConfig
   contextGuard: ContextGuardConfig
   sessionLocation: SessionLocationConfig
+  injection: InjectionOptionsConfig
 }
 
+/**
+ * Window size used when contextWindowTokens is 0 (auto) and the session's
+ * model is unknown or not in modelContextWindows.
+ */
+export const DEFAULT_CONTEXT_WINDOW_TOKENS = 200000
+
+/**
+ * Config sections that are open-keyed maps rather than fixed field sets.
+ * Their keys are user-defined, so they are validated entry by entry
+ * instead of being checked for unknown keys.
+ */
+export const CONFIG_MAP_SECTIONS = ['bookmarks.thresholds.toolWeights', 'contextGuard.modelContextWindows', 'contextGuard.agentPolicy']
+
 export const DEFAULT_CONFIG: TavConfig = {
   bookmarks: {
     enabled: false,
@@ -54,15 +131,35 @@ export const DEFAULT_CONFIG: TavConfig = {
       minSeconds: 120,
       agentBurstThreshold: 3,
       cooldownSeconds: 25,
+      toolWeights: {},
+    },
+    mutationBoundary: {
+      enabled: false,
+      mutatingTools: ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash'],
+      minReadOnlyRun: 3,
+    },
+    retry: {
+      enabled: false,
+      maxAttempts: 1,
     },
   },
   contextGuard: {
     enabled: false,
-    contextWindowTokens: 200000,
+    contextWindowTokens: 0,
+    modelContextWindows: {
+      'claude-opus-4': 200000,
+      'claude-sonnet-4': 200000,
+      'claude-haiku-4': 200000,
+      'claude-3': 200000,
+    },
     compactPercent: 0.76,
     denyPercent: 0.85,
     compactCooldownSeconds: 120,
     responseRatio: 0.25,
+    forecastHorizon: 0,
+    bands: [],
+    readGuard: 'deny',
+    agentPolicy: {},
   },
   sessionLocation: {
     enabled: false,
@@ -72,6 +169,61 @@ export const DEFAULT_CONFIG: TavConfig = {
       terminal: { tabVerification: false },
     },
   },
+  injection: {
+    preflight: true,
+    command: '',
+    target: '',
+    delaySeconds: 1.5,
+    adaptive: false,
+    adaptiveTimeoutSeconds: 10,
+  },
+}
+
+/**
+ * Where a resolved config value came from. Layers apply in this order,
+ * each overriding the previous one field by field.
+ */
+export type ConfigSource = 'default' | 'global' | 'project' | 'env'
+
+/**
+ * Effective config plus the winning layer for every leaf field,
+ * keyed by dotted path (e.g. "bookmarks.thresholds.minToolCalls").
+ */
+export interface ResolvedConfig {
+  config: TavConfig
+  sources: Record<string, ConfigSource>
+  layers: ConfigLayerInfo[]
+  issues: ConfigIssue[]
+}
+
+/**
+ * Load status of one config layer, for diagnostics.
+ */
+export interface ConfigLayerInfo {
+  source: Exclude<ConfigSource, 'default'>
+  location: string      // file path, or "TAV_* environment variables"
+  status: 'loaded' | 'missing' | 'error'
+  error?: string
+}
+
+export interface ResolveConfigOptions {
+  cwd?: string                 // project root — enables <cwd>/.claude/tav.json
+  globalPath?: string          // override for ~/.claude/tav/config.json (testing)
+  env?: Record<string, string | undefined>  // defaults to process.env
+  quiet?: boolean              // don't print layer read errors to stderr
+}
+
+interface ConfigLayer {
+  source: ConfigSource
+  raw: Record<string, unknown>
+}
+
+export function getGlobalConfigPath(): string {
+  return join(homedir(), '.claude', 'tav', 'config.json')
+}
+
+export function getProjectConfigPath(cwd: string): string {
+  return join(cwd, '.claude', 'tav.json')
 }
 
 /**
@@ -127,32 +279,339 @@ function validPercent(value: unknown, fallback: number): number {
   return n > 1.0 ? fallback : n
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Lists dotted paths of all leaf (non-object) values, e.g.
+ * "bookmarks.thresholds.minTokens". Arrays and map sections count as leaves.
+ */
+function leafPaths(obj: Record<string, unknown>, prefix: string = ''): string[] {
+  const paths: string[] = []
+  for (const key of Object.keys(obj)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    const value = obj[key]
+    if (isPlainObject(value) && !CONFIG_MAP_SECTIONS.includes(path)) {
+      paths.push(...leafPaths(value, path))
+    } else {
+      paths.push(path)
+    }
+  }
+  return paths
+}
+
+function getPath(obj: unknown, path: string): unknown {
+  let current = obj
+  for (const key of path.split('.')) {
+    if (!isPlainObject(current)) return undefined
+    current = current[key]
+  }
+  return current
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.')
+  let current = obj
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) current[key] = {}
+    current = current[key] as Record<string, unknown>
+  }
+  current[keys[keys.length - 1]] = value
+}
+
+/**
+ * A field the validator had to coerce or reject, or a legacy field it
+ * converted. Collected per layer so `tav config check` can explain every
+ * value that differs from what was written.
+ */
+export interface ConfigIssue {
+  source: ConfigSource
+  path: string          // dotted path of the field as written
+  value: unknown        // raw value from the layer
+  result: unknown       // value actually used
+  kind: 'coerced' | 'rejected' | 'legacy' | 'unknown'
+  reason: string
+}
+
+/**
+ * Keys accepted in config files that are not part of TavConfig itself,
+ * keyed by section path ('' = top level).
+ */
+const EXTRA_KEYS: Record<string, string[]> = {
+  '': ['$schema'],
+  contextGuard: ['compactThreshold', 'denyThreshold'],  // legacy, see validateConfig
+}
+
+/**
+ * Fields a project file (`<cwd>/.claude/tav.json`) may not set. tav runs
+ * injection.command through `sh -c`, so a cloned repo choosing it would run
+ * its own shell command on every bookmark. Only the global file and TAV_*
+ * env vars — both under the user's control — can set these.
+ */
+const PROJECT_FORBIDDEN_FIELDS = ['injection.command', 'injection.target']
+
+type IssueSink = (issue: Omit<ConfigIssue, 'source'>) => void
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'string') return `string ${JSON.stringify(value)}`
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`
+}
+
+/**
+ * Explains why validNumber() did not return `value` unchanged.
+ */
+function numberIssueReason(value: unknown): string {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? 'must not be negative' : 'must be a finite number'
+  }
+  if (typeof value === 'string') {
+    const n = Number(value)
+    if (!Number.isFinite(n)) return 'not a number'
+    return n < 0 ? 'must not be negative' : 'string coerced to number'
+  }
+  return `expected a number, got ${describeType(value)}`
+}
+
+/**
+ * Field validators that report every coercion/rejection to an optional sink.
+ * Without a sink they behave exactly like validNumber/validPercent.
+ */
+function createFieldValidator(sink?: IssueSink) {
+  function report(path: string, value: unknown, result: unknown, kind: ConfigIssue['kind'], reason: string): void {
+    sink?.({ path, value, result, kind, reason })
+  }
+
+  return {
+    number(path: string, value: unknown, fallback: number): number {
+      const result = validNumber(value, fallback)
+      if (result !== value) {
+        const coerced = typeof value === 'string' && result === Number(value)
+        report(path, value, result, coerced ? 'coerced' : 'rejected', numberIssueReason(value))
+      }
+      return result
+    },
+    percent(path: string, value: unknown, fallback: number): number {
+      const result = validPercent(value, fallback)
+      if (result !== value) {
+        const n = validNumber(value, fallback)
+        if (n > 1.0) {
+          report(path, value, result, 'rejected', 'must be a ratio between 0 and 1 (e.g. 0.85)')
+        } else {
+          const coerced = typeof value === 'string' && result === Number(value)
+          report(path, value, result, coerced ? 'coerced' : 'rejected', numberIssueReason(value))
+        }
+      }
+      return result
+    },
+    boolean(path: string, value: unknown, fallback: boolean): boolean {
+      if (typeof value === 'boolean') return value
+      report(path, value, fallback, 'rejected', `expected true or false, got ${describeType(value)}`)
+      return fallback
+    },
+    string(path: string, value: unknown, fallback: string): string {
+      if (typeof value === 'string' && value.length > 0) return value
+      report(path, value, fallback, 'rejected', `expected a non-empty string, got ${describeType(value)}`)
+      return fallback
+    },
+    optionalString(path: string, value: unknown, fallback: string): string {
+      if (typeof value === 'string') return value
+      report(path, value, fallback, 'rejected', `expected a string, got ${describeType(value)}`)
+      return fallback
+    },
+    oneOf<T extends string>(path: string, value: unknown, fallback: T, options: readonly T[]): T {
+      if (options.includes(value as T)) return value as T
+      report(path, value, fallback, 'rejected', `expected one of ${options.join(', ')}, got ${describeType(value)}`)
+      return fallback
+    },
+    template(path: string, value: unknown, fallback: string, placeholder: string): string {
+      if (typeof value !== 'string') {
+        report(path, value, fallback, 'rejected', `expected a string, got ${describeType(value)}`)
+        return fallback
+      }
+      if (value !== '' && !value.includes(placeholder)) {
+        report(path, value, fallback, 'rejected', `must contain the ${placeholder} placeholder`)
+        return fallback
+      }
+      return value
+    },
+    stringArray(path: string, value: unknown, fallback: string[]): string[] {
+      if (Array.isArray(value) && value.every(v => typeof v === 'string' && v.length > 0)) return value
+      report(path, value, fallback, 'rejected', Array.isArray(value)
+        ? 'every entry must be a non-empty string'
+        : `expected an array of strings, got ${describeType(value)}`)
+      return fallback
+    },
+    numberMap(path: string, value: unknown, fallback: Record<string, number>, allowZero: boolean = false): Record<string, number> {
+      if (!isPlainObject(value)) {
+        report(path, value, fallback, 'rejected', `expected an object of numbers, got ${describeType(value)}`)
+        return fallback
+      }
+      const result: Record<string, number> = {}
+      for (const [key, entry] of Object.entries(value)) {
+        const n = validNumber(entry, -1)
+        if (n < 0 || (n === 0 && !allowZero)) {
+          // Invalid override keeps the entry from the layer below, if any
+          report(`${path}.${key}`, entry, fallback[key], 'rejected', allowZero ? 'must be a non-negative number' : 'must be a positive number')
+          if (fallback[key] !== undefined) result[key] = fallback[key]
+          continue
+        }
+        if (n !== entry) report(`${path}.${key}`, entry, n, 'coerced', 'string coerced to number')
+        result[key] = n
+      }
+      return result
+    },
+    /**
+     * Validates an array entry by entry. `item` returns the validated entry
+     * or the reason it is rejected; rejected entries are dropped.
+     */
+    list<T>(path: string, value: unknown, fallback: T[], item: (entry: unknown) => T | string): T[] {
+      if (!Array.isArray(value)) {
+        report(path, value, fallback, 'rejected', `expected an array, got ${describeType(value)}`)
+        return fallback
+      }
+      const result: T[] = []
+      value.forEach((entry, i) => {
+        const checked = item(entry)
+        if (typeof checked === 'string') report(`${path}[${i}]`, entry, undefined, 'rejected', checked)
+        else result.push(checked)
+      })
+      return result
+    },
+    /**
+     * Validates an open-keyed map entry by entry, like list(). A rejected
+     * entry keeps the one from the layer below, if any.
+     */
+    map<T>(path: string, value: unknown, fallback: Record<string, T>, item: (entry: unknown) => T | string): Record<string, T> {
+      if (!isPlainObject(value)) {
+        report(path, value, fallback, 'rejected', `expected an object, got ${describeType(value)}`)
+        return fallback
+      }
+      const result: Record<string, T> = {}
+      for (const [key, entry] of Object.entries(value)) {
+        const checked = item(entry)
+        if (typeof checked === 'string') {
+          report(`${path}.${key}`, entry, fallback[key], 'rejected', checked)
+          if (fallback[key] !== undefined) result[key] = fallback[key]
+        } else {
+          result[key] = checked
+        }
+      }
+      return result
+    },
+    legacy(path: string, value: unknown, result: unknown, reason: string): void {
+      report(path, value, result, 'legacy', reason)
+    },
+  }
+}
+
+const GUARD_BAND_ACTIONS: GuardBandAction[] = ['warn', 'deny']
+const READ_GUARD_ACTIONS: ReadGuardAction[] = ['deny', 'warn', 'off']
+
+function isToolList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string' && v.length > 0)
+}
+
+const GUARD_BAND_KEYS = ['percent', 'action', 'tools', 'except', 'unboundedOnly']
+
+/**
+ * The reason an array or map entry is rejected for a key outside `known`,
+ * with a "did you mean" suggestion like sanitizeLayer's; null when every
+ * key is known. A misspelt key must not silently fall back to a default —
+ * a band without its intended `tools` would cover every tool.
+ */
+function unknownEntryKey(entry: Record<string, unknown>, known: string[]): string | null {
+  const key = Object.keys(entry).find(k => !known.includes(k))
+  if (key === undefined) return null
+  const suggestion = suggestConfigKey(key, known)
+  return suggestion ? `unknown key "${key}" (did you mean "${suggestion}"?)` : `unknown key "${key}"`
+}
+
+/**
+ * Validates one contextGuard.bands entry, filling in optional fields.
+ * Returns the reason when the entry can't be used.
+ */
+function validateGuardBand(entry: unknown): GuardBand | string {
+  if (!isPlainObject(entry)) return `expected a band object, got ${describeType(entry)}`
+  const unknownKey = unknownEntryKey(entry, GUARD_BAND_KEYS)
+  if (unknownKey) return unknownKey
+  const percent = validPercent(entry.percent, -1)
+  if (percent < 0) return 'percent must be a ratio between 0 and 1 (e.g. 0.8)'
+  if (!GUARD_BAND_ACTIONS.includes(entry.action as GuardBandAction)) return `action must be one of ${GUARD_BAND_ACTIONS.join(', ')}`
+  const tools = entry.tools ?? ['*']
+  const except = entry.except ?? []
+  if (!isToolList(tools) || !isToolList(except)) return 'tools and except must be arrays of tool names or globs'
+  if (entry.unboundedOnly !== undefined && typeof entry.unboundedOnly !== 'boolean') return 'unboundedOnly must be true or false'
+  return { percent, action: entry.action as GuardBandAction, tools, except, unboundedOnly: entry.unboundedOnly === true }
+}
+
+const AGENT_POLICY_KEYS = ['denyPercent', 'maxConcurrent']
+
+/**
+ * Validates one contextGuard.agentPolicy entry. Returns the reason when the
+ * entry can't be used.
+ */
+function validateAgentPolicy(entry: unknown): AgentPolicy | string {
+  if (!isPlainObject(entry)) return `expected a policy object, got ${describeType(entry)}`
+  const unknownKey = unknownEntryKey(entry, AGENT_POLICY_KEYS)
+  if (unknownKey) return unknownKey
+  const policy: AgentPolicy = {}
+  if (entry.denyPercent !== undefined) {
+    const denyPercent = validPercent(entry.denyPercent, -1)
+    if (denyPercent < 0) return 'denyPercent must be a ratio between 0 and 1 (e.g. 0.8)'
+    policy.denyPercent = denyPercent
+  }
+  if (entry.maxConcurrent !== undefined) {
+    const maxConcurrent = validNumber(entry.maxConcurrent, -1)
+    if (maxConcurrent < 0 || !Number.isInteger(maxConcurrent)) return 'maxConcurrent must be a whole number (0 = unlimited)'
+    policy.maxConcurrent = maxConcurrent
+  }
+  return policy
+}
+
 /**
  * Validates merged config, coercing threshold fields to numbers and
  * falling back to defaults for invalid values. This prevents silent
  * corruption where e.g. "minTokens": "banana" makes the threshold
  * unreachable (string comparison always false).
  *
+ * Invalid values fall back to `base` — the config resolved by the previous
+ * layer — so a typo in a project file keeps the global value, not the default.
+ * Every coerced, rejected or converted field is reported to `sink`.
+ *
  * Backward compatibility: if legacy fields (compactThreshold, denyThreshold)
  * are present in the contextGuard section but new percentage fields are absent,
  * converts them to percentages using responseRatio and contextWindowTokens.
  */
-function validateConfig(config: TavConfig, rawContextGuard?: Record<string, unknown>): TavConfig {
-  const d = DEFAULT_CONFIG.bookmarks
+function validateConfig(
+  config: TavConfig,
+  rawContextGuard?: Record<string, unknown>,
+  base: TavConfig = DEFAULT_CONFIG,
+  sink?: IssueSink
+): TavConfig {
+  const check = createFieldValidator(sink)
+
+  const d = base.bookmarks
   const t = config.bookmarks.thresholds
   const dt = d.thresholds
+  const mb = config.bookmarks.mutationBoundary
+  const dmb = d.mutationBoundary
+  const r = config.bookmarks.retry
+  const dr = d.retry
 
   const cg = config.contextGuard
-  const dcg = DEFAULT_CONFIG.contextGuard
+  const dcg = base.contextGuard
 
   // Resolve contextWindowTokens and responseRatio first (needed for legacy conversion)
-  const contextWindowTokens = validNumber(cg.contextWindowTokens, dcg.contextWindowTokens)
-  const responseRatio = validNumber(cg.responseRatio, dcg.responseRatio)
+  const contextWindowTokens = check.number('contextGuard.contextWindowTokens', cg.contextWindowTokens, dcg.contextWindowTokens)
+  const responseRatio = check.number('contextGuard.responseRatio', cg.responseRatio, dcg.responseRatio)
 
   // Legacy backward compat: convert absolute thresholds to percentages
   // Only applies when raw config has legacy fields but NOT the new percentage fields
-  let compactPercent = validPercent(cg.compactPercent, dcg.compactPercent)
-  let denyPercent = validPercent(cg.denyPercent, dcg.denyPercent)
+  let compactPercent = check.percent('contextGuard.compactPercent', cg.compactPercent, dcg.compactPercent)
+  let denyPercent = check.percent('contextGuard.denyPercent', cg.denyPercent, dcg.denyPercent)
 
   if (rawContextGuard) {
     const hasLegacyCompact = 'compactThreshold' in rawContextGuard && rawContextGuard.compactThreshold !== undefined
@@ -160,88 +619,360 @@ function validateConfig(config: TavConfig, rawContextGuard?: Record<string, unkn
     const hasLegacyDeny = 'denyThreshold' in rawContextGuard && rawContextGuard.denyThreshold !== undefined
     const hasNewDeny = 'denyPercent' in rawContextGuard && rawContextGuard.denyPercent !== undefined
 
-    const denominator = contextWindowTokens * responseRatio
+    if (hasLegacyCompact && hasNewCompact) {
+      check.legacy('contextGuard.compactThreshold', rawContextGuard.compactThreshold, compactPercent,
+        'ignored because compactPercent is also set')
+    }
+    if (hasLegacyDeny && hasNewDeny) {
+      check.legacy('contextGuard.denyThreshold', rawContextGuard.denyThreshold, denyPercent,
+        'ignored because denyPercent is also set')
+    }
+
+    // Auto-detected windows are unknown at load time — convert against the default
+    const legacyWindow = contextWindowTokens || DEFAULT_CONTEXT_WINDOW_TOKENS
+    const denominator = legacyWindow * responseRatio
     if (denominator > 0) {
       if (hasLegacyCompact && !hasNewCompact) {
         const legacyVal = validNumber(rawContextGuard.compactThreshold, 0)
         if (legacyVal > 0) {
           compactPercent = Math.min(legacyVal / denominator, 1.0)
+          check.legacy('contextGuard.compactThreshold', rawContextGuard.compactThreshold, compactPercent,
+            `converted to compactPercent ${compactPercent} (${legacyVal} / (${legacyWindow} × ${responseRatio}))`)
         }
       }
       if (hasLegacyDeny && !hasNewDeny) {
         const legacyVal = validNumber(rawContextGuard.denyThreshold, 0)
         if (legacyVal > 0) {
           denyPercent = Math.min(legacyVal / denominator, 1.0)
+          check.legacy('contextGuard.denyThreshold', rawContextGuard.denyThreshold, denyPercent,
+            `converted to denyPercent ${denyPercent} (${legacyVal} / (${legacyWindow} × ${responseRatio}))`)
         }
       }
     }
   }
 
-  const dsl = DEFAULT_CONFIG.sessionLocation
+  const dsl = base.sessionLocation
   const sl = config.sessionLocation
+  const inj = config.injection
+  const dinj = base.injection
 
   return {
     bookmarks: {
-      enabled: typeof config.bookmarks.enabled === 'boolean'
-        ? config.bookmarks.enabled
-        : d.enabled,
-      marker: typeof config.bookmarks.marker === 'string' && config.bookmarks.marker.length > 0
-        ? config.bookmarks.marker
-        : d.marker,
+      enabled: check.boolean('bookmarks.enabled', config.bookmarks.enabled, d.enabled),
+      marker: check.string('bookmarks.marker', config.bookmarks.marker, d.marker),
       thresholds: {
-        minTokens: validNumber(t.minTokens, dt.minTokens),
-        minToolCalls: validNumber(t.minToolCalls, dt.minToolCalls),
-        minSeconds: validNumber(t.minSeconds, dt.minSeconds),
-        agentBurstThreshold: validNumber(t.agentBurstThreshold, dt.agentBurstThreshold),
-        cooldownSeconds: validNumber(t.cooldownSeconds, dt.cooldownSeconds),
+        minTokens: check.number('bookmarks.thresholds.minTokens', t.minTokens, dt.minTokens),
+        minToolCalls: check.number('bookmarks.thresholds.minToolCalls', t.minToolCalls, dt.minToolCalls),
+        minSeconds: check.number('bookmarks.thresholds.minSeconds', t.minSeconds, dt.minSeconds),
+        agentBurstThreshold: check.number('bookmarks.thresholds.agentBurstThreshold', t.agentBurstThreshold, dt.agentBurstThreshold),
+        cooldownSeconds: check.number('bookmarks.thresholds.cooldownSeconds', t.cooldownSeconds, dt.cooldownSeconds),
+        toolWeights: check.numberMap('bookmarks.thresholds.toolWeights', t.toolWeights, dt.toolWeights, true),
+      },
+      mutationBoundary: {
+        enabled: check.boolean('bookmarks.mutationBoundary.enabled', mb.enabled, dmb.enabled),
+        mutatingTools: check.stringArray('bookmarks.mutationBoundary.mutatingTools', mb.mutatingTools, dmb.mutatingTools),
+        minReadOnlyRun: check.number('bookmarks.mutationBoundary.minReadOnlyRun', mb.minReadOnlyRun, dmb.minReadOnlyRun),
+      },
+      retry: {
+        enabled: check.boolean('bookmarks.retry.enabled', r.enabled, dr.enabled),
+        maxAttempts: check.number('bookmarks.retry.maxAttempts', r.maxAttempts, dr.maxAttempts),
       },
     },
     contextGuard: {
-      enabled: typeof cg.enabled === 'boolean' ? cg.enabled : dcg.enabled,
+      enabled: check.boolean('contextGuard.enabled', cg.enabled, dcg.enabled),
       contextWindowTokens,
+      modelContextWindows: check.numberMap('contextGuard.modelContextWindows', cg.modelContextWindows, dcg.modelContextWindows),
       compactPercent,
       denyPercent,
-      compactCooldownSeconds: validNumber(cg.compactCooldownSeconds, dcg.compactCooldownSeconds),
+      compactCooldownSeconds: check.number('contextGuard.compactCooldownSeconds', cg.compactCooldownSeconds, dcg.compactCooldownSeconds),
       responseRatio,
+      forecastHorizon: check.number('contextGuard.forecastHorizon', cg.forecastHorizon, dcg.forecastHorizon),
+      bands: check.list('contextGuard.bands', cg.bands, dcg.bands, validateGuardBand),
+      readGuard: check.oneOf('contextGuard.readGuard', cg.readGuard, dcg.readGuard, READ_GUARD_ACTIONS),
+      agentPolicy: check.map('contextGuard.agentPolicy', cg.agentPolicy, dcg.agentPolicy, validateAgentPolicy),
     },
     sessionLocation: {
-      enabled: typeof sl.enabled === 'boolean' ? sl.enabled : dsl.enabled,
-      verifyTab: typeof sl.verifyTab === 'boolean' ? sl.verifyTab : dsl.verifyTab,
+      enabled: check.boolean('sessionLocation.enabled', sl.enabled, dsl.enabled),
+      verifyTab: check.boolean('sessionLocation.verifyTab', sl.verifyTab, dsl.verifyTab),
       terminals: {
         iterm2: {
-          tabVerification: typeof sl.terminals?.iterm2?.tabVerification === 'boolean'
-            ? sl.terminals.iterm2.tabVerification
-            : dsl.terminals.iterm2.tabVerification,
+          tabVerification: check.boolean('sessionLocation.terminals.iterm2.tabVerification',
+            sl.terminals?.iterm2?.tabVerification, dsl.terminals.iterm2.tabVerification),
         },
         terminal: {
-          tabVerification: typeof sl.terminals?.terminal?.tabVerification === 'boolean'
-            ? sl.terminals.terminal.tabVerification
-            : dsl.terminals.terminal.tabVerification,
+          tabVerification: check.boolean('sessionLocation.terminals.terminal.tabVerification',
+            sl.terminals?.terminal?.tabVerification, dsl.terminals.terminal.tabVerification),
         },
       },
     },
+    injection: {
+      preflight: check.boolean('injection.preflight', inj.preflight, dinj.preflight),
+      command: check.template('injection.command', inj.command, dinj.command, '{text}'),
+      target: check.optionalString('injection.target', inj.target, dinj.target),
+      delaySeconds: check.number('injection.delaySeconds', inj.delaySeconds, dinj.delaySeconds),
+      adaptive: check.boolean('injection.adaptive', inj.adaptive, dinj.adaptive),
+      adaptiveTimeoutSeconds: check.number('injection.adaptiveTimeoutSeconds', inj.adaptiveTimeoutSeconds, dinj.adaptiveTimeoutSeconds),
+    },
   }
 }
 
 /**
- * Load TAV config from ~/.claude/tav/config.json
- * Falls back to defaults if file missing or invalid
- * @param configPath Optional override for testing
+ * Reads one JSON config layer. A missing file (ENOENT) is not an error;
+ * parse/read errors are returned so the caller can ignore the layer.
  */
-export function loadConfig(configPath?: string): TavConfig {
-  const path = configPath ?? join(homedir(), '.claude', 'tav', 'config.json')
-
+function readConfigFile(path: string): { raw: Record<string, unknown> | null; status: ConfigLayerInfo['status']; error?: string } {
   try {
-    const content = readFileSync(path, 'utf-8')
-    const parsed = JSON.parse(content) as Partial<TavConfig>
-    // Pass raw contextGuard section for legacy backward compat detection
-    const rawContextGuard = (parsed as Record<string, unknown>).contextGuard as Record<string, unknown> | undefined
-    return validateConfig(deepMerge(DEFAULT_CONFIG, parsed), rawContextGuard)
+    const parsed = JSON.parse(readFileSync(path, 'utf-8')) as unknown
+    if (!isPlainObject(parsed)) {
+      return { raw: null, status: 'error', error: 'expected a JSON object' }
+    }
+    return { raw: parsed, status: 'loaded' }
   } catch (err) {
-    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
-      // Log parse/read errors to stderr, but still return defaults
-      console.error(`TAV config error (using defaults): ${err}`)
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { raw: null, status: 'missing' }
+    }
+    return { raw: null, status: 'error', error: String(err) }
+  }
+}
+
+/**
+ * Maps a config path to its environment variable name:
+ * "bookmarks.thresholds.minToolCalls" → "TAV_BOOKMARKS_THRESHOLDS_MIN_TOOL_CALLS"
+ */
+export function envVarName(path: string): string {
+  return 'TAV_' + path
+    .split('.')
+    .map(key => key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+    .join('_')
+}
+
+function parseEnvValue(value: string): unknown {
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try { return JSON.parse(value) } catch { /* keep as string — validation rejects it */ }
+  }
+  return value
+}
+
+/**
+ * Builds the env layer from TAV_* variables, one per known config leaf.
+ * "true"/"false" become booleans, JSON objects/arrays are parsed (map
+ * sections); everything else stays a string and is coerced by
+ * validateConfig like any other layer value.
+ */
+function readEnvLayer(env: Record<string, string | undefined>): Record<string, unknown> | null {
+  const raw: Record<string, unknown> = {}
+  let found = false
+
+  for (const path of leafPaths(DEFAULT_CONFIG as unknown as Record<string, unknown>)) {
+    const value = env[envVarName(path)]
+    if (value === undefined || value === '') continue
+    setPath(raw, path, parseEnvValue(value))
+    found = true
+  }
+
+  return found ? raw : null
+}
+
+/**
+ * Levenshtein edit distance, for "did you mean" suggestions.
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return row[b.length]
+}
+
+/**
+ * Suggests the known key closest to a mistyped one: a case-insensitive
+ * match first, otherwise the nearest key within 2 edits.
+ */
+export function suggestConfigKey(key: string, known: string[]): string | null {
+  const caseMatch = known.find(k => k.toLowerCase() === key.toLowerCase())
+  if (caseMatch) return caseMatch
+
+  let best: string | null = null
+  let bestDistance = 3
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase())
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * Returns a copy of `raw` containing only keys TavConfig knows about.
+ *
+ * Unknown keys (e.g. "contextguard", "minToolcalls") are reported as warnings
+ * with a suggestion, rather than being silently dropped by validation.
+ * Values that replace a whole section (e.g. `"thresholds": 5`) are rejected —
+ * deepMerge would otherwise overwrite the section and validation would have
+ * nothing to read fields from.
+ */
+function sanitizeLayer(
+  raw: Record<string, unknown>,
+  shape: Record<string, unknown>,
+  sink: IssueSink,
+  prefix: string = ''
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  const extras = EXTRA_KEYS[prefix] ?? []
+
+  for (const key of Object.keys(raw)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    const value = raw[key]
+
+    if (!(key in shape)) {
+      if (extras.includes(key)) {
+        result[key] = value
+        continue
+      }
+      const suggestion = suggestConfigKey(key, [...Object.keys(shape), ...extras])
+      sink({
+        path,
+        value,
+        result: undefined,
+        kind: 'unknown',
+        reason: suggestion ? `unknown key (did you mean "${suggestion}"?)` : 'unknown key',
+      })
+      continue
+    }
+
+    const expected = shape[key]
+    if (isPlainObject(expected) && !CONFIG_MAP_SECTIONS.includes(path)) {
+      if (isPlainObject(value)) {
+        result[key] = sanitizeLayer(value, expected, sink, path)
+      } else if (value !== undefined) {
+        sink({ path, value, result: undefined, kind: 'rejected', reason: `expected a section object, got ${describeType(value)}` })
+      }
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * Attributes each leaf field to the layer that set it. A field is won by a
+ * layer when the layer specified it and validation accepted it, or when the
+ * layer changed it indirectly (legacy threshold conversion).
+ */
+function recordSources(
+  sources: Record<string, ConfigSource>,
+  layer: ConfigLayer,
+  before: TavConfig,
+  after: TavConfig
+): void {
+  for (const path of leafPaths(after as unknown as Record<string, unknown>)) {
+    const value = getPath(after, path)
+    const rawValue = getPath(layer.raw, path)
+    const accepted = rawValue !== undefined && (
+      isDeepStrictEqual(value, rawValue) ||
+      (typeof rawValue === 'string' && value === Number(rawValue))
+    )
+    if (accepted || !isDeepStrictEqual(value, getPath(before, path))) {
+      sources[path] = layer.source
     }
-    return DEFAULT_CONFIG
   }
 }
+
+/**
+ * Removes PROJECT_FORBIDDEN_FIELDS from a sanitized project layer, reporting
+ * each as rejected. The value from the layers below stays in effect.
+ */
+function dropProjectForbiddenFields(raw: Record<string, unknown>, current: TavConfig, sink: IssueSink): void {
+  for (const path of PROJECT_FORBIDDEN_FIELDS) {
+    const [section, key] = path.split('.')
+    const sectionRaw = raw[section]
+    if (!isPlainObject(sectionRaw) || !(key in sectionRaw)) continue
+    sink({
+      path,
+      value: sectionRaw[key],
+      result: getPath(current, path),
+      kind: 'rejected',
+      reason: 'not allowed in a project config — set it in the global config or a TAV_* env var',
+    })
+    delete sectionRaw[key]
+  }
+}
+
+/**
+ * Resolves the effective config from all layers:
+ *   built-in defaults → global (~/.claude/tav/config.json)
+ *   → project (<cwd>/.claude/tav.json) → TAV_* env vars
+ *
+ * Each layer is deep-merged onto the previous result and validated against
+ * it, so an invalid value in one layer falls back to the layer below.
+ */
+export function resolveConfig(options: ResolveConfigOptions = {}): ResolvedConfig {
+  const layers: ConfigLayer[] = []
+  const layerInfo: ConfigLayerInfo[] = []
+
+  const files: Array<{ source: 'global' | 'project'; path: string }> = [
+    { source: 'global', path: options.globalPath ?? getGlobalConfigPath() },
+  ]
+  if (options.cwd) {
+    files.push({ source: 'project', path: getProjectConfigPath(options.cwd) })
+  }
+
+  for (const file of files) {
+    const { raw, status, error } = readConfigFile(file.path)
+    layerInfo.push({ source: file.source, location: file.path, status, ...(error ? { error } : {}) })
+    if (error && !options.quiet) {
+      // Log parse/read errors to stderr, but keep resolving the other layers
+      console.error(`TAV config error (ignoring ${file.path}): ${error}`)
+    }
+    if (raw) layers.push({ source: file.source, raw })
+  }
+
+  const envRaw = readEnvLayer(options.env ?? process.env)
+  layerInfo.push({ source: 'env', location: 'TAV_* environment variables', status: envRaw ? 'loaded' : 'missing' })
+  if (envRaw) layers.push({ source: 'env', raw: envRaw })
+
+  const sources: Record<string, ConfigSource> = {}
+  for (const path of leafPaths(DEFAULT_CONFIG as unknown as Record<string, unknown>)) {
+    sources[path] = 'default'
+  }
+
+  const issues: ConfigIssue[] = []
+  let config = DEFAULT_CONFIG
+  for (const layer of layers) {
+    // Pass raw contextGuard section for legacy backward compat detection
+    const rawContextGuard = isPlainObject(layer.raw.contextGuard) ? layer.raw.contextGuard : undefined
+    const sink: IssueSink = issue => {
+      issues.push({ source: layer.source, ...issue })
+      if (issue.kind === 'unknown' && !options.quiet) {
+        console.error(`TAV config warning (${layer.source}): "${issue.path}" ${issue.reason}`)
+      }
+    }
+    const raw = sanitizeLayer(layer.raw, DEFAULT_CONFIG as unknown as Record<string, unknown>, sink)
+    if (layer.source === 'project') dropProjectForbiddenFields(raw, config, sink)
+    const next = validateConfig(deepMerge(config, raw as Partial<TavConfig>), rawContextGuard, config, sink)
+    recordSources(sources, layer, config, next)
+    config = next
+  }
+
+  return { config, sources, layers: layerInfo, issues }
+}
+
+/**
+ * Load the effective TAV config (see resolveConfig for layering).
+ * Falls back to defaults if no layer is present or valid.
+ * @param configPath Optional override for the global config file (testing)
+ * @param cwd Optional project root for <cwd>/.claude/tav.json
+ */
+export function loadConfig(configPath?: string, cwd?: string): TavConfig {
+  return resolveConfig({ globalPath: configPath, cwd }).config
+}
@@ -2,15 +2,24 @@ import { openSync, fstatSync, readSync, closeSync, readdirSync, statSync, exists
 import { join } from 'path'
 import { homedir } from 'os'
 
+import { DEFAULT_CONTEXT_WINDOW_TOKENS } from './config'
 import type { ContextGuardConfig } from './config'
 
+/** Token usage and model id of the most recent assistant entry. */
+export interface AssistantEntryInfo {
+  tokens: number
+  model: string | null
+}
+
 /**
- * Reads the last assistant entry's effective token count from a session JSONL.
+ * Reads the last assistant entry's effective token count and model id from
+ * a session JSONL.
  *
  * Uses efficient tail-read: reads only the last `chunkSize` bytes,
  * scans backwards for last {"type":"assistant"...} entry with message.usage.
  *
  * Effective context = input_tokens + cache_creation_input_tokens + cache_read_input_tokens
+ * Model id comes from message.model (e.g. "claude-sonnet-4-5-20250929").
  *
  * Concurrent write safety:
  * - Discards the very last line (may be a partial write from CC appending)
@@ -20,7 +29,7 @@ import type { ContextGuardConfig } from './config'
  *
  * Returns null on any failure (missing file, no assistant entries, parse error).
  */
-export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65536): number | null {
+export function readLastAssistantEntry(jsonlPath: string, chunkSize: number = 65536): AssistantEntryInfo | null {
   let fd: number | null = null
   try {
     fd = openSync(jsonlPath, 'r')
@@ -49,7 +58,7 @@ export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65
     const validLines = lines.slice(startSlice, -1)
 
     // Collect ALL assistant entries with timestamps to find the most recent
-    const assistantEntries: Array<{ timestamp: number; total: number }> = []
+    const assistantEntries: Array<{ timestamp: number; total: number; model: string | null }> = []
 
     for (let i = validLines.length - 1; i >= 0; i--) {
       const line = validLines[i].trim()
@@ -74,7 +83,8 @@ export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65
         const total = inputTokens + cacheCreation + cacheRead
         if (total > 0) {
           const timestamp = typeof entry.timestamp === 'number' ? entry.timestamp : 0
-          assistantEntries.push({ timestamp, total })
+          const model = typeof entry.message.model === 'string' && entry.message.model ? entry.message.model : null
+          assistantEntries.push({ timestamp, total, model })
         }
       } catch {
         // Malformed JSON — skip this line, try next
@@ -85,7 +95,7 @@ export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65
     // Return entry with highest timestamp (most recent)
     if (assistantEntries.length === 0) return null
     assistantEntries.sort((a, b) => b.timestamp - a.timestamp)
-    return assistantEntries[0].total
+    return { tokens: assistantEntries[0].total, model: assistantEntries[0].model }
   } catch {
     return null
   } finally {
@@ -96,10 +106,64 @@ export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65
 }
 
 /**
- * Computes context pressure as a 0–1 ratio.
+ * Reads the last assistant entry's effective token count from a session JSONL.
+ * See readLastAssistantEntry. Returns null on any failure.
+ */
+export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65536): number | null {
+  return readLastAssistantEntry(jsonlPath, chunkSize)?.tokens ?? null
+}
+
+/** Where the context window size came from. */
+export type ContextWindowSource = 'override' | 'model' | 'default'
+
+/**
+ * Resolves the context window size for a model.
+ *
+ * contextWindowTokens > 0 is an explicit override and always wins.
+ * Otherwise the longest modelContextWindows key that prefixes the model id
+ * is used ("claude-sonnet-4-5" beats "claude-sonnet-4"), falling back to
+ * DEFAULT_CONTEXT_WINDOW_TOKENS for unknown or undetected models.
+ */
+export function resolveContextWindow(
+  config: ContextGuardConfig,
+  model: string | null
+): { tokens: number; source: ContextWindowSource } {
+  if (config.contextWindowTokens > 0) {
+    return { tokens: config.contextWindowTokens, source: 'override' }
+  }
+
+  if (model) {
+    let bestKey = ''
+    for (const key of Object.keys(config.modelContextWindows ?? {})) {
+      if (model.startsWith(key) && key.length > bestKey.length) bestKey = key
+    }
+    if (bestKey && config.modelContextWindows[bestKey] > 0) {
+      return { tokens: config.modelContextWindows[bestKey], source: 'model' }
+    }
+  }
+
+  return { tokens: DEFAULT_CONTEXT_WINDOW_TOKENS, source: 'default' }
+}
+
+/** Context pressure plus the inputs it was computed from. */
+export interface ContextSnapshot {
+  pressure: number                   // 0–1 ratio
+  tokens: number | null              // real JSONL tokens, null when only the estimate was available
+  model: string | null               // model id of the latest assistant entry
+  windowTokens: number               // resolved context window size
+  windowSource: ContextWindowSource
+}
+
+/**
+ * Computes context pressure as a 0–1 ratio, with the detected model and
+ * resolved window size.
  *
- * Primary path: real JSONL tokens / contextWindowTokens
- * Fallback path: cumulativeEstimatedTokens / (contextWindowTokens × responseRatio)
+ * Primary path: real JSONL tokens / window
+ * Fallback path: cumulativeEstimatedTokens / (window × responseRatio)
+ *
+ * The window is resolved per call from the latest assistant entry's model
+ * (see resolveContextWindow), so switching between 200K and 1M models
+ * mid-session is picked up on the next hook.
  *
  * The fallback scales by responseRatio because cumulativeEstimatedTokens counts
  * only tool/agent response content (a fraction of full context). responseRatio
@@ -107,36 +171,76 @@ export function readLastAssistantUsage(jsonlPath: string, chunkSize: number = 65
  * Without this scaling, the fallback would need ~4× more tokens to trigger —
  * e.g. 152K response tokens instead of 38K at compactPercent=0.76.
  *
- * Returns 0 when both sources are unavailable.
+ * Pressure is 0 when both sources are unavailable.
  * Clamped to [0, 1.0] — cache segments can occasionally push effective tokens
  * beyond the nominal context window.
  */
-export function getContextPressure(
+export function getContextSnapshot(
   jsonlPath: string | null,
   cumulativeEstimatedTokens: number,
   config: ContextGuardConfig
-): number {
-  const windowTokens = config.contextWindowTokens
-  if (windowTokens <= 0) return 0
+): ContextSnapshot {
+  const entry = jsonlPath ? readLastAssistantEntry(jsonlPath) : null
+  const model = entry?.model ?? null
+  const window = resolveContextWindow(config, model)
+  const snapshot: ContextSnapshot = {
+    pressure: 0,
+    tokens: null,
+    model,
+    windowTokens: window.tokens,
+    windowSource: window.source,
+  }
 
   // Primary: JSONL real token usage
-  if (jsonlPath) {
-    const realTokens = readLastAssistantUsage(jsonlPath)
-    if (realTokens !== null && realTokens > 0) {
-      return Math.min(realTokens / windowTokens, 1.0)
-    }
+  if (entry && entry.tokens > 0) {
+    snapshot.tokens = entry.tokens
+    snapshot.pressure = Math.min(entry.tokens / window.tokens, 1.0)
+    return snapshot
   }
 
   // Fallback: chars/4 estimation from activity log, scaled by responseRatio.
   // cumulativeEstimatedTokens counts response content only (~25% of total context).
   // Dividing by (windowTokens × responseRatio) converts to full-context pressure.
   if (cumulativeEstimatedTokens > 0) {
-    const effectiveWindow = windowTokens * config.responseRatio
-    if (effectiveWindow <= 0) return 0
-    return Math.min(cumulativeEstimatedTokens / effectiveWindow, 1.0)
+    const effectiveWindow = window.tokens * config.responseRatio
+    if (effectiveWindow > 0) {
+      snapshot.pressure = Math.min(cumulativeEstimatedTokens / effectiveWindow, 1.0)
+    }
   }
 
-  return 0
+  return snapshot
+}
+
+/** Tokens of `chars` characters of tool output, estimated like the activity log */
+export function estimateTokens(chars: number): number {
+  return Math.floor(chars / 4)
+}
+
+/**
+ * Pressure a tool response of `chars` characters would add to `snapshot`,
+ * estimated with estimateTokens. On the fallback path
+ * the estimate is scaled by responseRatio, as in getContextSnapshot, so the
+ * result can be added to snapshot.pressure.
+ */
+export function estimateResponsePressure(
+  chars: number,
+  snapshot: ContextSnapshot,
+  config: ContextGuardConfig
+): number {
+  const tokens = estimateTokens(chars)
+  const window = snapshot.tokens !== null ? snapshot.windowTokens : snapshot.windowTokens * config.responseRatio
+  return window > 0 ? tokens / window : 0
+}
+
+/**
+ * Computes context pressure as a 0–1 ratio. See getContextSnapshot.
+ */
+export function getContextPressure(
+  jsonlPath: string | null,
+  cumulativeEstimatedTokens: number,
+  config: ContextGuardConfig
+): number {
+  return getContextSnapshot(jsonlPath, cumulativeEstimatedTokens, config).pressure
 }
 
 /**
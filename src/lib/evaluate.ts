@@ -1,6 +1,8 @@
 import type { TavConfig, ContextGuardConfig } from './config'
-import type { LogMetrics } from './log'
+import type { LogMetrics, BookmarkTrigger } from './log'
 import { meetsAnyThreshold } from './log'
+import type { PressureForecast } from './pressure-history'
+import { FORECAST_MIN_PRESSURE_RATIO, stepsUntilThreshold } from './pressure-history'
 
 /**
  * Common inputs for bookmark injection evaluation.
@@ -12,11 +14,13 @@ export interface EvalContext {
   config: TavConfig
   metrics: LogMetrics
   injectionMethod: string
+  turnEnded?: boolean           // Stop: Claude is idle, so a pending mutation boundary can be bookmarked
 }
 
 export interface EvalResult {
   shouldInject: boolean
   reason: string
+  trigger?: BookmarkTrigger   // set when shouldInject
 }
 
 /**
@@ -28,8 +32,10 @@ export interface EvalResult {
  *   1. bookmarks.enabled
  *   2. injectionMethod !== 'disabled'
  *   3. lastLineIsBookmark
- *   4. cooldown
- *   5. threshold evaluation (ANY threshold met → inject)
+ *   4. retry of a lost injection (bypasses cooldown, when enabled)
+ *   5. cooldown
+ *   6. threshold evaluation (ANY threshold met → inject)
+ *   7. mutation boundary (first mutating tool after a read-only run), Stop only
  */
 export function shouldInjectBookmark(ctx: EvalContext): EvalResult {
   const { config, metrics, injectionMethod } = ctx
@@ -46,14 +52,47 @@ export function shouldInjectBookmark(ctx: EvalContext): EvalResult {
     return { shouldInject: false, reason: 'last line is already a bookmark' }
   }
 
+  // The last marker never arrived: its window was due, so retry it now
+  // rather than waiting out cooldown. Giving up after maxAttempts keeps a
+  // pane that swallows keystrokes from being hammered.
+  const { retry } = config.bookmarks
+  const lost = metrics.injections
+  if (retry.enabled && lost.orphanedAt > 0 && lost.consecutiveLost <= retry.maxAttempts) {
+    return { shouldInject: true, trigger: 'retry', reason: `retrying lost injection (attempt ${lost.consecutiveLost} of ${retry.maxAttempts})` }
+  }
+
   const lastActivityAt = Math.max(metrics.lastInjectionAt, metrics.lastBookmarkAt)
   const cooldownMs = config.bookmarks.thresholds.cooldownSeconds * 1000
   if (Date.now() - lastActivityAt < cooldownMs) {
     return { shouldInject: false, reason: 'within cooldown period' }
   }
 
-  const { met, reason } = meetsAnyThreshold(metrics, config.bookmarks.thresholds)
-  return { shouldInject: met, reason }
+  const { met, reason, trigger } = meetsAnyThreshold(metrics, config.bookmarks.thresholds)
+  if (met) return { shouldInject: true, reason, trigger }
+
+  // Mid-turn the pane is busy: the tmux preflight would skip the marker, and
+  // other backends would type it into a running turn
+  const boundary = config.bookmarks.mutationBoundary
+  if (ctx.turnEnded && boundary.enabled && metrics.mutationBoundaryRun > 0 && metrics.mutationBoundaryRun >= boundary.minReadOnlyRun) {
+    return { shouldInject: true, trigger: 'boundary', reason: `mutation boundary (first mutating tool after ${metrics.mutationBoundaryRun} read-only calls)` }
+  }
+
+  return { shouldInject: false, reason }
+}
+
+/**
+ * Extras for the I record of an injected bookmark: why it fired and the
+ * window metrics it fired on, so thresholds can be tuned from real
+ * sessions (`tav stats`).
+ */
+export function injectionRecordFields(evaluation: EvalResult, metrics: LogMetrics): Record<string, string> {
+  const fields: Record<string, string> = { reason: evaluation.reason }
+  if (evaluation.trigger) fields.trigger = evaluation.trigger
+  fields.tok = String(metrics.estimatedTokens)
+  fields.tools = String(metrics.toolCalls)
+  fields.secs = String(metrics.elapsedSeconds)
+  fields.agents = String(metrics.agentReturns)
+  return fields
 }
 
 /**
@@ -63,7 +102,8 @@ export interface CompactContext {
   pressure: number              // 0–1 context pressure ratio
   config: ContextGuardConfig
   metrics: LogMetrics
-  injectionMethod: string       // 'tmux' | 'screen' | 'osascript' | 'disabled'
+  injectionMethod: string       // 'tmux' | 'screen' | 'zellij' | 'kitty' | 'wezterm' | 'osascript' | 'custom' | 'disabled'
+  forecast?: PressureForecast | null  // growth trend; enables early compaction when forecastHorizon > 0
 }
 
 export interface CompactResult {
@@ -71,6 +111,22 @@ export interface CompactResult {
   reason: string
 }
 
+/**
+ * Whether a threshold forecast `steps` away is within forecastHorizon.
+ * Requires pressure of at least FORECAST_MIN_PRESSURE_RATIO × threshold so a
+ * steep start on a fresh context doesn't trigger.
+ */
+export function forecastReaches(
+  pressure: number,
+  threshold: number,
+  steps: number | null,
+  config: ContextGuardConfig
+): boolean {
+  if (config.forecastHorizon <= 0 || steps === null) return false
+  if (pressure < threshold * FORECAST_MIN_PRESSURE_RATIO) return false
+  return steps <= config.forecastHorizon
+}
+
 /**
  * Unified compaction evaluation — single source of truth.
  * Replaces duplicated logic in bookmark-activity.ts and bookmark-stop.ts.
@@ -78,11 +134,12 @@ export interface CompactResult {
  * Guard order (fixed):
  *   1. contextGuard.enabled
  *   2. injectionMethod !== 'disabled'
- *   3. pressure >= compactPercent
+ *   3. pressure >= compactPercent, or forecast to reach it within
+ *      forecastHorizon turns/agent returns
  *   4. compaction cooldown (compactCooldownSeconds)
  */
 export function shouldCompact(ctx: CompactContext): CompactResult {
-  const { pressure, config, metrics, injectionMethod } = ctx
+  const { pressure, config, metrics, injectionMethod, forecast } = ctx
 
   if (!config.enabled) {
     return { shouldCompact: false, reason: 'context guard disabled' }
@@ -92,7 +149,17 @@ export function shouldCompact(ctx: CompactContext): CompactResult {
     return { shouldCompact: false, reason: 'injection method is disabled' }
   }
 
-  if (pressure < config.compactPercent) {
+  // Steep growth: compact now rather than after the threshold is crossed
+  // mid-cascade, when the next turn may already be too large
+  let forecastReason: string | null = null
+  if (pressure < config.compactPercent && forecast) {
+    const steps = stepsUntilThreshold(forecast, config.compactPercent)
+    if (forecastReaches(pressure, config.compactPercent, steps, config)) {
+      forecastReason = `context pressure ${(pressure * 100).toFixed(0)}% forecast to reach compact threshold ${(config.compactPercent * 100).toFixed(0)}% within ${steps} step${steps === 1 ? '' : 's'}`
+    }
+  }
+
+  if (pressure < config.compactPercent && !forecastReason) {
     return { shouldCompact: false, reason: `pressure ${(pressure * 100).toFixed(0)}% below compact threshold ${(config.compactPercent * 100).toFixed(0)}%` }
   }
 
@@ -102,6 +169,10 @@ export function shouldCompact(ctx: CompactContext): CompactResult {
     return { shouldCompact: false, reason: `within compaction cooldown (${Math.floor(timeSinceCompaction / 1000)}s < ${config.compactCooldownSeconds}s)` }
   }
 
+  if (forecastReason) {
+    return { shouldCompact: true, reason: forecastReason }
+  }
+
   return {
     shouldCompact: true,
     reason: `context pressure ${(pressure * 100).toFixed(0)}% >= compact threshold ${(config.compactPercent * 100).toFixed(0)}%`
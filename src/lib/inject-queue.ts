@@ -0,0 +1,214 @@
+import { writeFileSync, readFileSync, readdirSync, linkSync, unlinkSync, renameSync } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+import { sanitizeSessionId, ensureStateDir } from './log'
+
+const DEFAULT_STATE_DIR = join(homedir(), '.claude', 'tav', 'state')
+
+/**
+ * What an injection types. Lower priority values run first: a `/compact`
+ * shouldn't wait behind a bookmark.
+ */
+export type InjectionKind = 'compact' | 'bookmark'
+
+const KIND_PRIORITY: Record<InjectionKind, number> = { compact: 0, bookmark: 1 }
+
+/**
+ * A queued request's runner may have died before taking it. Older entries
+ * are dropped rather than typed into a conversation that has moved on —
+ * and so they don't deduplicate new requests forever.
+ */
+export const QUEUE_ENTRY_STALE_MS = 60000
+
+/**
+ * The injector holds its lock for a few seconds per entry (delay + send) and
+ * refreshes it before each one. A lock not refreshed for this long was left
+ * by a crashed injector and is taken over.
+ */
+export const INJECTOR_LOCK_STALE_MS = 30000
+
+/**
+ * One pending injection, persisted as `<session>.<kind>.queue`. A kind has
+ * at most one pending entry: a second request is a duplicate.
+ */
+export interface QueuedInjection {
+  kind: InjectionKind
+  command: string      // shell command from buildInjectionCommand
+  requestedAt: number
+}
+
+export function getQueueEntryPath(sessionId: string, kind: InjectionKind, stateDir: string = DEFAULT_STATE_DIR): string {
+  return join(stateDir, `${sanitizeSessionId(sessionId)}.${kind}.queue`)
+}
+
+export function getInjectorLockPath(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): string {
+  return join(stateDir, `${sanitizeSessionId(sessionId)}.inject.lock`)
+}
+
+/**
+ * Creates `path` with `content` only if it doesn't exist. The content is
+ * written to a temp file first and hard-linked into place, so readers
+ * never see a partial file and two writers can't both succeed.
+ */
+function createExclusive(path: string, content: string): boolean {
+  const tmpPath = `${path}.${process.pid}.${Date.now()}.tmp`
+  writeFileSync(tmpPath, content, 'utf-8')
+  try {
+    linkSync(tmpPath, path)
+    return true
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false
+    throw err
+  } finally {
+    try { unlinkSync(tmpPath) } catch { /* already gone */ }
+  }
+}
+
+function readQueueEntry(path: string): QueuedInjection | null {
+  try {
+    const entry = JSON.parse(readFileSync(path, 'utf-8')) as QueuedInjection
+    return typeof entry.command === 'string' && typeof entry.requestedAt === 'number' ? entry : null
+  } catch {
+    return null
+  }
+}
+
+function removeFile(path: string): void {
+  try { unlinkSync(path) } catch { /* already gone */ }
+}
+
+/**
+ * Queues an injection. Returns false when one of the same kind is already
+ * pending (deduplicated). A stale or unreadable pending entry is replaced.
+ */
+export function enqueueInjection(
+  sessionId: string,
+  entry: QueuedInjection,
+  stateDir: string = DEFAULT_STATE_DIR
+): boolean {
+  ensureStateDir(stateDir)
+  const path = getQueueEntryPath(sessionId, entry.kind, stateDir)
+  const content = JSON.stringify(entry)
+  if (createExclusive(path, content)) return true
+
+  const pending = readQueueEntry(path)
+  if (pending && entry.requestedAt - pending.requestedAt < QUEUE_ENTRY_STALE_MS) return false
+
+  removeFile(path)
+  return createExclusive(path, content)
+}
+
+/**
+ * Pending entries, highest priority first. Stale entries are removed.
+ */
+export function listQueuedInjections(sessionId: string, stateDir: string = DEFAULT_STATE_DIR, now: number = Date.now()): QueuedInjection[] {
+  const prefix = `${sanitizeSessionId(sessionId)}.`
+  let files: string[]
+  try {
+    files = readdirSync(stateDir).filter(f => f.startsWith(prefix) && f.endsWith('.queue'))
+  } catch {
+    return []
+  }
+
+  const entries: QueuedInjection[] = []
+  for (const file of files) {
+    const kind = file.slice(prefix.length, -'.queue'.length) as InjectionKind
+    if (!(kind in KIND_PRIORITY)) continue
+    const path = join(stateDir, file)
+    const entry = readQueueEntry(path)
+    if (!entry || now - entry.requestedAt >= QUEUE_ENTRY_STALE_MS) {
+      removeFile(path)
+      continue
+    }
+    entries.push({ ...entry, kind })
+  }
+  return entries.sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] || a.requestedAt - b.requestedAt)
+}
+
+interface InjectorLock {
+  pid: number
+  acquiredAt: number
+}
+
+function readInjectorLock(path: string): InjectorLock | null {
+  try {
+    const lock = JSON.parse(readFileSync(path, 'utf-8')) as Partial<InjectorLock>
+    return typeof lock.pid === 'number' && typeof lock.acquiredAt === 'number' ? lock as InjectorLock : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Takes the lock that makes this process the session's only injector.
+ * Returns false while another live injector holds it.
+ */
+export function acquireInjectorLock(sessionId: string, stateDir: string = DEFAULT_STATE_DIR, now: number = Date.now()): boolean {
+  ensureStateDir(stateDir)
+  const path = getInjectorLockPath(sessionId, stateDir)
+  const content = JSON.stringify({ pid: process.pid, acquiredAt: now })
+  if (createExclusive(path, content)) return true
+
+  // Unreadable lock — treat as stale
+  const acquiredAt = readInjectorLock(path)?.acquiredAt ?? 0
+  if (now - acquiredAt < INJECTOR_LOCK_STALE_MS) return false
+
+  removeFile(path)
+  return createExclusive(path, content)
+}
+
+/**
+ * Marks this process's lock as fresh again. Returns false when the lock is
+ * no longer ours — another injector took it over — and is left alone.
+ */
+export function refreshInjectorLock(sessionId: string, stateDir: string = DEFAULT_STATE_DIR, now: number = Date.now()): boolean {
+  const path = getInjectorLockPath(sessionId, stateDir)
+  if (readInjectorLock(path)?.pid !== process.pid) return false
+
+  const tmpPath = `${path}.${process.pid}.${now}.tmp`
+  writeFileSync(tmpPath, JSON.stringify({ pid: process.pid, acquiredAt: now }), 'utf-8')
+  renameSync(tmpPath, path)
+  return true
+}
+
+/** Removes the lock, unless another injector has taken it over */
+export function releaseInjectorLock(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): void {
+  const path = getInjectorLockPath(sessionId, stateDir)
+  if (readInjectorLock(path)?.pid === process.pid) removeFile(path)
+}
+
+/**
+ * Runs queued injections one at a time, highest priority first, until the
+ * queue is empty. Each entry is removed before it runs, so a new request
+ * of the same kind can queue meanwhile. The lock is refreshed before each
+ * entry; if it was taken over anyway, the new owner drains the rest. After
+ * releasing the lock the queue is checked once more: an entry queued while
+ * this injector was finishing would otherwise wait for the next request.
+ * Returns the number run; 0 when another injector holds the lock (it will
+ * pick up our entries).
+ */
+export function drainInjectionQueue(
+  sessionId: string,
+  run: (command: string) => void,
+  stateDir: string = DEFAULT_STATE_DIR
+): number {
+  let count = 0
+  while (acquireInjectorLock(sessionId, stateDir)) {
+    try {
+      let next: QueuedInjection | undefined
+      while (refreshInjectorLock(sessionId, stateDir) && (next = listQueuedInjections(sessionId, stateDir)[0])) {
+        removeFile(getQueueEntryPath(sessionId, next.kind, stateDir))
+        try {
+          run(next.command)
+        } catch {
+          // A failed injection doesn't block the rest of the queue
+        }
+        count++
+      }
+    } finally {
+      releaseInjectorLock(sessionId, stateDir)
+    }
+    if (listQueuedInjections(sessionId, stateDir).length === 0) break
+  }
+  return count
+}
@@ -1,15 +1,18 @@
 import { spawn, execSync } from 'child_process'
 import type { ChildProcess } from 'child_process'
-import { appendEvent } from './log'
+import { join, extname } from 'path'
+import { appendRecord, getLogPath } from './log'
+import { enqueueInjection } from './inject-queue'
+import type { InjectionKind } from './inject-queue'
 import type { SessionLocation } from './session'
-import type { TavConfig } from './config'
+import type { TavConfig, InjectionOptionsConfig } from './config'
 
 export type { SessionLocation }
-export type InjectionMethod = 'tmux' | 'screen' | 'osascript' | 'disabled';
+export type InjectionMethod = 'tmux' | 'screen' | 'zellij' | 'kitty' | 'wezterm' | 'osascript' | 'custom' | 'disabled';
 
 export interface InjectionConfig {
   method: InjectionMethod;
-  target: string; // pane ID for tmux (%N), session for screen, empty for osascript/disabled
+  target: string; // pane ID for tmux (%N), session for screen, session:pane for zellij, window ID for kitty, pane ID for wezterm, injection.target for custom, empty for osascript/disabled
   tabId?: string;  // terminal tab identifier (iTerm2: UUID, Terminal.app: tab index)
   windowId?: string; // terminal window identifier
 }
@@ -21,6 +24,48 @@ export function isValidPaneId(paneId: string): boolean {
   return /^%\d+$/.test(paneId);
 }
 
+/**
+ * Validates that a kitty window ID is numeric, as set in KITTY_WINDOW_ID.
+ */
+export function isValidKittyWindowId(windowId: string): boolean {
+  return /^\d+$/.test(windowId);
+}
+
+/**
+ * Validates that a WezTerm pane ID is numeric, as set in WEZTERM_PANE.
+ */
+export function isValidWeztermPaneId(paneId: string): boolean {
+  return /^\d+$/.test(paneId);
+}
+
+/**
+ * Validates a Zellij pane ID, as set in ZELLIJ_PANE_ID.
+ */
+export function isValidZellijPaneId(paneId: string): boolean {
+  return /^\d+$/.test(paneId);
+}
+
+/**
+ * Zellij injection target: `<session>:<pane>`. Session names may contain
+ * colons, so the pane is taken after the last one. Returns null when the
+ * target is malformed.
+ */
+export function parseZellijTarget(target: string): { session: string; pane: string } | null {
+  const sep = target.lastIndexOf(':');
+  if (sep <= 0) return null;
+  const session = target.slice(0, sep);
+  const pane = target.slice(sep + 1);
+  return isValidZellijPaneId(pane) && !/[\r\n]/.test(session) ? { session, pane } : null;
+}
+
+/**
+ * Escapes backslashes for `kitty @ send-text`, which applies Python escape
+ * rules to its text argument (so `\r` can press Enter).
+ */
+export function sanitizeForKitty(text: string): string {
+  return text.replace(/\\/g, '\\\\');
+}
+
 /**
  * Escapes single quotes for safe use in single-quoted shell strings.
  * Replaces ' with '\''
@@ -101,6 +146,26 @@ export function detectSessionLocation(): SessionLocation | null {
     location.screenSession = screenSession
   }
 
+  // Zellij session and pane
+  const zellijSession = process.env.ZELLIJ_SESSION_NAME
+  const zellijPane = process.env.ZELLIJ_PANE_ID
+  if (process.env.ZELLIJ !== undefined && zellijSession && zellijPane && isValidZellijPaneId(zellijPane)) {
+    location.zellijSession = zellijSession
+    location.zellijPane = zellijPane
+  }
+
+  // kitty window ID
+  const kittyWindow = process.env.KITTY_WINDOW_ID
+  if (kittyWindow && isValidKittyWindowId(kittyWindow)) {
+    location.kittyWindow = kittyWindow
+  }
+
+  // WezTerm pane ID
+  const weztermPane = process.env.WEZTERM_PANE
+  if (weztermPane && isValidWeztermPaneId(weztermPane)) {
+    location.weztermPane = weztermPane
+  }
+
   // macOS terminal app
   if (process.platform === 'darwin') {
     const terminalProcess = resolveTerminalProcessName()
@@ -110,7 +175,7 @@ export function detectSessionLocation(): SessionLocation | null {
   }
 
   // Return null if no location identifiers found
-  if (!location.tmuxPane && !location.screenSession && !location.terminalApp) {
+  if (!location.tmuxPane && !location.screenSession && !location.zellijPane && !location.kittyWindow && !location.weztermPane && !location.terminalApp) {
     return null
   }
 
@@ -119,8 +184,13 @@ export function detectSessionLocation(): SessionLocation | null {
 
 /**
  * Detects the available injection method based on environment variables and platform.
+ * A configured `injection.command` takes precedence over every terminal.
  */
-export function detectInjectionMethod(): InjectionConfig {
+export function detectInjectionMethod(options?: InjectionOptionsConfig): InjectionConfig {
+  if (options?.command) {
+    return { method: 'custom', target: options.target };
+  }
+
   // Check for tmux
   const tmuxEnv = process.env.TMUX;
   const tmuxPane = process.env.TMUX_PANE;
@@ -134,6 +204,29 @@ export function detectInjectionMethod(): InjectionConfig {
     return { method: 'screen', target: screenSession };
   }
 
+  // Check for Zellij — before kitty/WezTerm, whose variables leak into a
+  // Zellij session started inside them
+  const zellijSession = process.env.ZELLIJ_SESSION_NAME;
+  const zellijPane = process.env.ZELLIJ_PANE_ID;
+  if (process.env.ZELLIJ !== undefined && zellijSession && zellijPane && isValidZellijPaneId(zellijPane)) {
+    return { method: 'zellij', target: `${zellijSession}:${zellijPane}` };
+  }
+
+  // Check for kitty remote control. The injection runs detached, without
+  // the window's tty, so kitty must be listening on a socket
+  // (`listen_on` + `allow_remote_control` in kitty.conf).
+  const kittyWindow = process.env.KITTY_WINDOW_ID;
+  if (kittyWindow && isValidKittyWindowId(kittyWindow) && process.env.KITTY_LISTEN_ON) {
+    return { method: 'kitty', target: kittyWindow };
+  }
+
+  // Check for WezTerm — `wezterm cli` reaches the GUI through the inherited
+  // WEZTERM_UNIX_SOCKET, no configuration needed
+  const weztermPane = process.env.WEZTERM_PANE;
+  if (weztermPane && isValidWeztermPaneId(weztermPane)) {
+    return { method: 'wezterm', target: weztermPane };
+  }
+
   // Check for macOS — only use osascript when we can identify the terminal process.
   // Without process-targeted injection, keystrokes go to the frontmost app which
   // can land in the wrong application (browser, editor) when the user switches focus.
@@ -148,10 +241,159 @@ export function detectInjectionMethod(): InjectionConfig {
   return { method: 'disabled', target: '' };
 }
 
+/**
+ * Why a preflight skipped an injection. Written as `reason=` on the X record.
+ */
+export type PreflightSkipReason = 'no-pane' | 'copy-mode' | 'busy' | 'dialog' | 'input-pending';
+
+/** Claude Code's status line while a turn is still running */
+export const PANE_BUSY_PATTERN = 'esc to interrupt';
+
+/**
+ * Permission and confirmation dialogs, which replace the prompt while open:
+ * the selection cursor on a numbered option (`❯ 1. Yes`). Question wording
+ * alone isn't enough — Claude's reply above an idle prompt can ask one too.
+ */
+export const PANE_DIALOG_PATTERN = '^[[:space:]]*(│)?[[:space:]]*(❯|>)[[:space:]]+[0-9]+\\. ';
+
+/**
+ * The idle prompt line: `>` (or `❯`), optionally inside the input box
+ * border, with nothing typed after it. The placeholder suggestion shown in
+ * an empty prompt (`Try "…"`) still counts as empty.
+ */
+export const PANE_EMPTY_PROMPT_PATTERN = '^[[:space:]]*(│)?[[:space:]]*(>|❯)([[:space:]]| )*(Try "[^"]*")?([[:space:]]| )*(│)?[[:space:]]*$';
+
+/** Non-blank lines at the bottom of the pane searched by the preflight */
+const PREFLIGHT_SCAN_LINES = 15;
+
+/** Placeholders substituted in an `injection.command` template */
+export const COMMAND_TEMPLATE_PLACEHOLDERS = ['{target}', '{text}'] as const;
+
+/**
+ * Renders an `injection.command` template. Each placeholder becomes a
+ * single-quoted shell word (sanitizeForShell), so templates must not quote
+ * placeholders themselves. Other braces are left as written.
+ */
+export function renderCommandTemplate(template: string, target: string, text: string): string {
+  const values: Record<string, string> = { '{target}': target, '{text}': text };
+  return template.replace(/\{(target|text)\}/g, placeholder => `'${sanitizeForShell(values[placeholder])}'`);
+}
+
+/**
+ * Where a preflight records a skipped injection: an X record with
+ * `inj=<injectedAt>` (the I or C record the keys belonged to) is appended
+ * to `logPath`.
+ */
+export interface InjectionPreflight {
+  logPath: string;
+  injectedAt: number;
+}
+
+/**
+ * When keys are sent. A fixed delay sleeps `delaySeconds`; adaptive timing
+ * polls the pane (tmux, wezterm, kitty) until Claude's prompt is idle, for
+ * at most `timeoutSeconds`, and sends anyway when it times out. Methods
+ * without pane capture fall back to the fixed delay.
+ */
+export interface InjectionTiming {
+  delaySeconds: number;
+  adaptive: boolean;
+  timeoutSeconds: number;
+}
+
+export interface InjectionCommandOptions {
+  preflight?: InjectionPreflight; // tmux only
+  template?: string;              // `injection.command`, required by the custom method
+  timing?: InjectionTiming;
+}
+
+/** Delay used when no timing is given — enough for Claude Code to take input */
+export const DEFAULT_INJECTION_DELAY_SECONDS = 1.5;
+
+/**
+ * Longest wait before sending, whatever the config says: the injector kills
+ * a command after 15s, and the queue behind it must keep moving.
+ */
+export const MAX_INJECTION_WAIT_SECONDS = 10;
+
+/** Seconds between pane captures in adaptive timing */
+const ADAPTIVE_POLL_SECONDS = 0.25;
+
+/**
+ * Prints a pane's visible text, for the methods that can read one back.
+ */
+function paneCaptureCommand(method: InjectionMethod, target: string): string | null {
+  const t = sanitizeForShell(target);
+  switch (method) {
+    case 'tmux':
+      return `tmux capture-pane -p -t '${t}'`;
+    case 'wezterm':
+      return `wezterm cli get-text --pane-id '${t}'`;
+    case 'kitty':
+      return `kitty @ --to "$KITTY_LISTEN_ON" get-text --match 'id:${t}'`;
+    default:
+      return null;
+  }
+}
+
+/** Sets `$screen` to the bottom non-blank lines of a pane capture */
+function captureScreen(capture: string): string {
+  return `screen=$(${capture} 2>/dev/null | grep -v '^[[:space:]]*$' | tail -n ${PREFLIGHT_SCAN_LINES})`;
+}
+
+function screenHas(pattern: string): string {
+  return `printf '%s\n' "$screen" | grep -Eq '${sanitizeForShell(pattern)}'`;
+}
+
+/**
+ * Builds the wait that runs before keys are sent, as a prefix ending in
+ * `&& `. Adaptive polling first sleeps one interval, so the keys never
+ * arrive in the same instant the turn ends.
+ */
+export function buildInjectionDelay(method: InjectionMethod, target: string, timing?: InjectionTiming): string {
+  const capture = timing?.adaptive ? paneCaptureCommand(method, target) : null;
+  if (!timing || !capture) {
+    const delay = Math.min(timing?.delaySeconds ?? DEFAULT_INJECTION_DELAY_SECONDS, MAX_INJECTION_WAIT_SECONDS);
+    return `sleep ${delay} && `;
+  }
+
+  const polls = Math.max(1, Math.ceil(Math.min(timing.timeoutSeconds, MAX_INJECTION_WAIT_SECONDS) / ADAPTIVE_POLL_SECONDS));
+  const idle = `! ${screenHas(PANE_BUSY_PATTERN)} && ${screenHas(PANE_EMPTY_PROMPT_PATTERN)}`;
+  return `{ n=0; while [ $n -lt ${polls} ]; do sleep ${ADAPTIVE_POLL_SECONDS}; ${captureScreen(capture)}; if ${idle}; then break; fi; n=$((n+1)); done; true; } && `;
+}
+
+/**
+ * Builds the shell that checks a tmux pane right before keys are sent and
+ * sets `$reason` to a PreflightSkipReason, or leaves it empty when the pane
+ * is safe: it exists, is not in copy-mode, Claude is not mid-turn or showing
+ * a dialog, and the prompt line is empty (the user isn't typing).
+ */
+export function buildTmuxPreflight(target: string): string {
+  const t = sanitizeForShell(target);
+  return [
+    `reason=`,
+    `mode=$(tmux display-message -p -t '${t}' '#{pane_in_mode}' 2>/dev/null) || mode=gone`,
+    captureScreen(`tmux capture-pane -p -t '${t}'`),
+    `if [ "$mode" = gone ]; then reason=no-pane`,
+    `elif [ "$mode" != 0 ]; then reason=copy-mode`,
+    `elif ${screenHas(PANE_BUSY_PATTERN)}; then reason=busy`,
+    `elif ${screenHas(PANE_DIALOG_PATTERN)}; then reason=dialog`,
+    `elif ! ${screenHas(PANE_EMPTY_PROMPT_PATTERN)}; then reason=input-pending`,
+    `fi`,
+  ].join('; ');
+}
+
 /**
  * Builds a shell command to inject a marker character into the terminal.
  * Returns null if the method is disabled.
  *
+ * Keys are sent after the wait built from `timing` (see buildInjectionDelay),
+ * 1.5s by default.
+ *
+ * With `preflight` (tmux only), the pane is checked after the delay and the
+ * keys are sent only when it is idle; otherwise an X record is logged. The
+ * custom method renders `template`, and returns null without one.
+ *
  * The returned command is intended for use with spawnDetached(), which passes
  * it to spawn('sh', ['-c', command]). All interpolated values are single-quoted
  * with sanitizeForShell() escaping for defense-in-depth.
@@ -159,25 +401,60 @@ export function detectInjectionMethod(): InjectionConfig {
 export function buildInjectionCommand(
   method: InjectionMethod,
   target: string,
-  marker: string
+  marker: string,
+  options: InjectionCommandOptions = {}
 ): string | null {
+  const { preflight, template, timing } = options;
   if (method === 'disabled') {
     return null;
   }
 
   const sanitizedMarker = sanitizeForShell(marker);
   const sanitizedTarget = sanitizeForShell(target);
+  const delay = buildInjectionDelay(method, target, timing);
 
   switch (method) {
-    case 'tmux':
+    case 'tmux': {
       // Use -l flag for literal text, separate commands for marker and Enter
       // All values single-quoted for defense-in-depth
-      return `sleep 1.5 && tmux send-keys -t '${sanitizedTarget}' -l '${sanitizedMarker}' && tmux send-keys -t '${sanitizedTarget}' Enter`;
+      const send = `tmux send-keys -t '${sanitizedTarget}' -l '${sanitizedMarker}' && tmux send-keys -t '${sanitizedTarget}' Enter`;
+      if (!preflight) return `${delay}${send}`;
+
+      // Timestamp in whole seconds — `date +%s%3N` is GNU-only
+      const skip = `printf 'X %s000 inj=${preflight.injectedAt} reason=%s\n' "$(date +%s)" "$reason" >> '${sanitizeForShell(preflight.logPath)}'`;
+      return `${delay}{ ${buildTmuxPreflight(target)}; if [ -z "$reason" ]; then ${send}; else ${skip}; fi; }`;
+    }
+
+    case 'kitty':
+      // Window-targeted, no focus needed. `\r` presses Enter (send-text
+      // applies Python escapes); $KITTY_LISTEN_ON is inherited from the hook
+      return `${delay}kitty @ --to "$KITTY_LISTEN_ON" send-text --match 'id:${sanitizedTarget}' -- '${sanitizeForShell(sanitizeForKitty(marker))}\\r'`;
+
+    case 'wezterm':
+      // Pane-targeted, no focus needed. --no-paste types the text instead of
+      // a bracketed paste; the text comes on stdin so it can end in a CR (Enter)
+      return `${delay}printf '%s\\r' '${sanitizedMarker}' | wezterm cli send-text --pane-id '${sanitizedTarget}' --no-paste`;
+
+    case 'zellij': {
+      // write-chars types into the session's focused pane — there is no pane
+      // flag — so only send while list-clients shows our pane focused, the
+      // same guard as the osascript frontmost check. Byte 13 presses Enter.
+      const zellij = parseZellijTarget(target);
+      if (!zellij) return null;
+      const session = `zellij --session '${sanitizeForShell(zellij.session)}' action`;
+      const focusCheck = `${session} list-clients 2>/dev/null | grep -Eq 'terminal_${zellij.pane}([[:space:]]|$)'`;
+      return `${delay}if ${focusCheck}; then ${session} write-chars '${sanitizedMarker}' && ${session} write 13; fi`;
+    }
+
+    case 'custom':
+      // The user's command is responsible for submitting the text (Enter)
+      if (!template) return null;
+      return `${delay}${renderCommandTemplate(template, target, marker)}`;
 
     case 'screen':
       // Use stuff command with \\n for newline (screen interprets \n as newline)
       // All values single-quoted for defense-in-depth
-      return `sleep 1.5 && screen -S '${sanitizedTarget}' -X stuff '${sanitizedMarker}\\n'`;
+      return `${delay}screen -S '${sanitizedTarget}' -X stuff '${sanitizedMarker}\\n'`;
 
     case 'osascript': {
       // macOS keystroke automation — split into separate keystroke + Enter for reliability.
@@ -194,7 +471,7 @@ export function buildInjectionCommand(
       const tellTarget = `tell application "System Events" to tell process "${asTarget}"`
 
       // Command structure: check frontmost → keystroke → Enter (only if check passes)
-      return `sleep 1.5 && if osascript -e '${frontmostCheck}' >/dev/null 2>&1; then osascript -e '${tellTarget} to keystroke "${asMarker}"' && sleep 0.2 && osascript -e '${tellTarget} to key code 36'; fi`
+      return `${delay}if osascript -e '${frontmostCheck}' >/dev/null 2>&1; then osascript -e '${tellTarget} to keystroke "${asMarker}"' && sleep 0.2 && osascript -e '${tellTarget} to key code 36'; fi`
     }
 
     default:
@@ -219,9 +496,61 @@ export function spawnDetached(command: string): void {
 }
 
 /**
- * High-level bookmark injection: appends pre-spawn 'I' marker, builds
- * injection command for the configured marker, and spawns detached.
- * Returns true if injection was spawned, false if method is disabled.
+ * The injector entry point beside this module's directory — src/ when run
+ * by bun from source, dist/ when run by node from the build.
+ */
+const INJECT_RUNNER_PATH = join(__dirname, '..', `inject-runner${extname(__filename)}`)
+
+/**
+ * Spawns a detached injector to drain the session's injection queue with
+ * the same runtime as this hook. Never throws.
+ */
+export function spawnInjector(sessionId: string, stateDir?: string): void {
+  try {
+    const args = [INJECT_RUNNER_PATH, sessionId, ...(stateDir ? [stateDir] : [])]
+    const child: ChildProcess = spawn(process.execPath, args, { detached: true, stdio: 'ignore' })
+    child.unref()
+  } catch {
+    // Silently ignore errors
+  }
+}
+
+/**
+ * Queues an injection and starts an injector. Only one injector types into
+ * a session at a time, so a bookmark and `/compact` can't interleave.
+ * Returns false when the same kind is already pending (nothing is queued).
+ */
+function queueInjection(sessionId: string, kind: InjectionKind, command: string, requestedAt: number, stateDir?: string): boolean {
+  let queued: boolean
+  try {
+    queued = enqueueInjection(sessionId, { kind, command, requestedAt }, stateDir)
+  } catch {
+    return false
+  }
+  if (queued) spawnInjector(sessionId, stateDir)
+  return queued
+}
+
+function commandOptions(sessionId: string, injectedAt: number, config: TavConfig, stateDir?: string): InjectionCommandOptions {
+  return {
+    preflight: config.injection.preflight ? { logPath: getLogPath(sessionId, stateDir), injectedAt } : undefined,
+    template: config.injection.command,
+    timing: {
+      delaySeconds: config.injection.delaySeconds,
+      adaptive: config.injection.adaptive,
+      timeoutSeconds: config.injection.adaptiveTimeoutSeconds,
+    },
+  }
+}
+
+/**
+ * High-level bookmark injection: builds the injection command for the
+ * configured marker, queues it for the session's injector and appends the
+ * 'I' marker. With `injection.preflight`, a busy tmux pane gets an X record
+ * instead. `fields` (see injectionRecordFields) are kept on the I record
+ * for the bookmark index and `tav stats`.
+ * Returns true if injection was queued, false if method is disabled or a
+ * bookmark is already pending.
  */
 export function requestBookmark(
   sessionId: string,
@@ -229,7 +558,8 @@ export function requestBookmark(
   marker: string,
   declaredLocation: SessionLocation | undefined,
   config: TavConfig,
-  stateDir?: string
+  stateDir?: string,
+  fields: Record<string, string> = {}
 ): boolean {
   // Verify location before injection
   if (!verifyLocation(declaredLocation, config)) {
@@ -238,18 +568,23 @@ export function requestBookmark(
 
   if (injection.method === 'disabled') return false
 
-  const command = buildInjectionCommand(injection.method, injection.target, marker)
+  const ts = Date.now()
+  const command = buildInjectionCommand(injection.method, injection.target, marker, commandOptions(sessionId, ts, config, stateDir))
   if (!command) return false
 
-  appendEvent(sessionId, `I ${Date.now()}`, stateDir)
-  spawnDetached(command)
+  if (!queueInjection(sessionId, 'bookmark', command, ts, stateDir)) return false
+
+  appendRecord(sessionId, { type: 'I', ts, fields }, stateDir)
   return true
 }
 
 /**
- * High-level compaction injection: appends pre-spawn 'C' marker, builds
- * injection command for '/compact', and spawns detached.
- * Returns true if injection was spawned, false if method is disabled.
+ * High-level compaction injection: builds the injection command for
+ * '/compact', queues it ahead of any pending bookmark and appends the 'C'
+ * marker. When the preflight skips it, the X record undoes that C in the
+ * log fold, so cooldown doesn't block the retry.
+ * Returns true if injection was queued, false if method is disabled or a
+ * compaction is already pending.
  */
 export function requestCompaction(
   sessionId: string,
@@ -265,11 +600,13 @@ export function requestCompaction(
 
   if (injection.method === 'disabled') return false
 
-  const command = buildInjectionCommand(injection.method, injection.target, '/compact')
+  const ts = Date.now()
+  const command = buildInjectionCommand(injection.method, injection.target, '/compact', commandOptions(sessionId, ts, config, stateDir))
   if (!command) return false
 
-  appendEvent(sessionId, `C ${Date.now()}`, stateDir)
-  spawnDetached(command)
+  if (!queueInjection(sessionId, 'compact', command, ts, stateDir)) return false
+
+  appendRecord(sessionId, { type: 'C', ts, fields: {} }, stateDir)
   return true
 }
 
@@ -297,6 +634,10 @@ export function verifyLocation(
   // Compare each field that exists in declared location
   if (declaredLocation.tmuxPane && current.tmuxPane !== declaredLocation.tmuxPane) return false
   if (declaredLocation.screenSession && current.screenSession !== declaredLocation.screenSession) return false
+  if (declaredLocation.zellijSession && current.zellijSession !== declaredLocation.zellijSession) return false
+  if (declaredLocation.zellijPane && current.zellijPane !== declaredLocation.zellijPane) return false
+  if (declaredLocation.kittyWindow && current.kittyWindow !== declaredLocation.kittyWindow) return false
+  if (declaredLocation.weztermPane && current.weztermPane !== declaredLocation.weztermPane) return false
   if (declaredLocation.terminalApp && current.terminalApp !== declaredLocation.terminalApp) return false
   if (config.sessionLocation.verifyTab && declaredLocation.tabId && current.tabId !== declaredLocation.tabId) return false
 
@@ -1,7 +1,11 @@
-import { appendFileSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync } from 'fs'
+import {
+  appendFileSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync,
+  openSync, fstatSync, readSync, closeSync, writeFileSync, renameSync,
+} from 'fs'
 import { join } from 'path'
 import { homedir } from 'os'
 import type { ThresholdConfig } from './config'
+import { resolveToolWeight } from './tool-match'
 
 const DEFAULT_STATE_DIR = join(homedir(), '.claude', 'tav', 'state')
 
@@ -16,8 +20,55 @@ export interface LogMetrics {
   lastCompactionAt: number
   lastLineIsBookmark: boolean
   recentAgentTimestamps: number[]   // A-line timestamps from last 15 seconds (for burst detection)
+  toolStats: Record<string, ToolStat>            // per tool name, since last bookmark
+  cumulativeToolStats: Record<string, ToolStat>  // per tool name, since last compaction
+  mutationBoundaryRun: number       // longest read-only run a mutating tool call ended since the last bookmark (a pending boundary); else 0
+  injections: InjectionStats        // bookmark injection outcomes, whole session
+  runningAgents: Record<string, number>  // agents started (S) and not yet returned (Task T), per subagent type
 }
 
+/**
+ * Whether injected markers arrived. An I record is landed when a B record
+ * follows within INJECTION_LANDING_WINDOW_MS, lost when the next I or B
+ * comes later than that, and orphaned (counted as lost) while it is still
+ * unacknowledged past the window. Skipped injections — an X record from the
+ * pane preflight — were never sent and count as neither.
+ */
+export interface InjectionStats {
+  attempted: number
+  landed: number
+  lost: number
+  skipped: number
+  consecutiveLost: number  // lost in a row, up to and including an orphan
+  orphanedAt: number       // timestamp of the orphaned I record, or 0
+}
+
+/** Call count and response size (chars) for one tool */
+export interface ToolStat {
+  count: number
+  chars: number
+}
+
+/**
+ * An injected marker reaches UserPromptSubmit within seconds of its I
+ * record. A B record later than this after the I is not that injection.
+ */
+export const INJECTION_LANDING_WINDOW_MS = 30000
+
+/** Tool name used for T records written before tool names were logged */
+export const UNKNOWN_TOOL = 'unknown'
+
+/** Subagent type for S and Task T records without `agent=` */
+export const UNKNOWN_AGENT = 'unknown'
+
+/**
+ * Stop's E record ends agents whose PostToolUse never arrived (denied,
+ * failed, interrupted). This is only a safety bound for a turn that never
+ * ends: an S record older than this no longer counts as running. The
+ * starts themselves are kept, so a late Task T still ends its own run.
+ */
+export const AGENT_RUN_STALE_MS = 30 * 60 * 1000
+
 export function sanitizeSessionId(sessionId: string): string {
   // Truncate to 200 chars to prevent ENAMETOOLONG (255 limit minus .json/.log suffix)
   return sessionId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 200)
@@ -36,142 +87,545 @@ export function appendEvent(sessionId: string, line: string, stateDir: string =
   appendFileSync(getLogPath(sessionId, stateDir), `${line}\n`)
 }
 
-export function parseLog(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): LogMetrics {
-  const logPath = getLogPath(sessionId, stateDir)
+/** Current activity log format version, declared by the header line */
+export const LOG_FORMAT_VERSION = 1
+
+/** First line of logs created by SessionStart. Logs without it are v0 */
+export const LOG_HEADER = `#tav-log v${LOG_FORMAT_VERSION}`
+
+/**
+ * One activity log record.
+ *
+ * Line format: `<type> <ts> [chars] [key=value ...]` — the v0 positional
+ * fields, then optional extras with URI-encoded values. v0 lines are valid
+ * records without extras, and readers ignore keys they don't know, so new
+ * metrics can be logged without breaking in-flight sessions.
+ * Lines starting with `#` are headers/comments and carry no record.
+ */
+export interface LogRecord {
+  type: string                   // T | A | B | I | C | X | S | E
+  ts: number                     // epoch ms; NaN when malformed
+  chars?: number                 // response size for T/A records
+  fields: Record<string, string> // extras (key=value), decoded
+}
 
+export function formatRecord(record: LogRecord): string {
+  const parts = [record.type, String(record.ts)]
+  if (record.chars !== undefined) parts.push(String(record.chars))
+  for (const [key, value] of Object.entries(record.fields)) {
+    parts.push(`${key}=${encodeURIComponent(value)}`)
+  }
+  return parts.join(' ')
+}
+
+/**
+ * Parses one log line. Returns null for blank and `#` lines. Malformed
+ * positional fields don't reject the record: an unparseable timestamp is
+ * NaN and an unparseable char count is omitted, matching v0 tolerance.
+ */
+export function parseRecord(line: string): LogRecord | null {
+  if (!line.trim() || line.startsWith('#')) return null
+
+  const tokens = line.split(' ')
+  const positional: string[] = []
+  const fields: Record<string, string> = {}
+  for (const token of tokens) {
+    const eq = token.indexOf('=')
+    if (eq > 0) {
+      try {
+        fields[token.slice(0, eq)] = decodeURIComponent(token.slice(eq + 1))
+      } catch {
+        fields[token.slice(0, eq)] = token.slice(eq + 1)
+      }
+    } else if (Object.keys(fields).length === 0) {
+      positional.push(token)
+    }
+  }
+
+  const record: LogRecord = { type: positional[0], ts: parseInt(positional[1], 10), fields }
+  const chars = positional[2] ? parseInt(positional[2], 10) : NaN
+  if (!isNaN(chars)) record.chars = chars
+  return record
+}
+
+export function appendRecord(sessionId: string, record: LogRecord, stateDir: string = DEFAULT_STATE_DIR): void {
+  appendEvent(sessionId, formatRecord(record), stateDir)
+}
+
+/**
+ * All records in a session's activity log, oldest first. Header lines are
+ * skipped; a missing log has no records.
+ */
+export function readLogRecords(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): LogRecord[] {
   let content: string
   try {
-    content = readFileSync(logPath, 'utf-8')
+    content = readFileSync(getLogPath(sessionId, stateDir), 'utf-8')
   } catch {
-    return {
-      toolCalls: 0,
-      agentReturns: 0,
-      estimatedTokens: 0,
-      cumulativeEstimatedTokens: 0,
-      elapsedSeconds: 0,
-      lastInjectionAt: 0,
-      lastBookmarkAt: 0,
-      lastCompactionAt: 0,
-      lastLineIsBookmark: false,
-      recentAgentTimestamps: []
-    }
+    return []
   }
 
-  const lines = content.split('\n').filter(l => l.trim())
+  const records: LogRecord[] = []
+  for (const line of content.split('\n')) {
+    const record = parseRecord(line)
+    if (record) records.push(record)
+  }
+  return records
+}
 
-  // Find last bookmark index
-  let lastBookmarkIdx = -1
-  for (let i = lines.length - 1; i >= 0; i--) {
-    if (lines[i].startsWith('B ')) {
-      lastBookmarkIdx = i
-      break
-    }
+/**
+ * Running parse state for the activity log — everything parseLog needs,
+ * accumulated line by line so it can be checkpointed and resumed.
+ * Window fields cover lines since the last B marker; cumulativeCharCount and
+ * cumulativeToolStats cover lines since the last C marker.
+ */
+interface LogFoldState {
+  toolCalls: number
+  agentReturns: number
+  charCount: number
+  firstTimestamp: number
+  lastTimestamp: number
+  cumulativeCharCount: number
+  lastInjectionAt: number
+  lastBookmarkAt: number
+  lastCompactionAt: number
+  agentTimestamps: number[]   // A timestamps since last B (pruned to the burst window on checkpoint)
+  lastLineIsBookmark: boolean
+  toolStats: Record<string, ToolStat>
+  cumulativeToolStats: Record<string, ToolStat>
+  readOnlyRun: number           // consecutive non-mutating T records since last mutating T or B
+  mutationBoundaryRun: number
+  injections: InjectionTally
+  agentStarts: Record<string, number[]>  // S timestamps per subagent type, oldest first, not yet matched by a Task T
+  lastCompaction: CompactionUndo | null  // what the latest C record reset, or null
+}
+
+/**
+ * What a C record reset. A C is written when `/compact` is queued; when the
+ * preflight then skips it (X record with `inj=` = the C's timestamp), the
+ * compaction never ran and this is put back.
+ */
+interface CompactionUndo {
+  at: number
+  cumulativeCharCount: number
+  cumulativeToolStats: Record<string, ToolStat>
+  lastCompactionAt: number
+}
+
+/**
+ * Persisted parse position. `tail` holds the bytes just before `offset`
+ * (base64) so a log that was rewritten to the same or larger size is
+ * detected, not silently resumed mid-line.
+ */
+interface LogCheckpoint {
+  version: number
+  ino: number
+  offset: number
+  tail: string
+  state: LogFoldState
+}
+
+const CHECKPOINT_VERSION = 10
+const CHECKPOINT_TAIL_BYTES = 64
+const RECENT_AGENT_WINDOW_MS = 15000
+
+function emptyFoldState(): LogFoldState {
+  return {
+    toolCalls: 0,
+    agentReturns: 0,
+    charCount: 0,
+    firstTimestamp: 0,
+    lastTimestamp: 0,
+    cumulativeCharCount: 0,
+    lastInjectionAt: 0,
+    lastBookmarkAt: 0,
+    lastCompactionAt: 0,
+    agentTimestamps: [],
+    lastLineIsBookmark: false,
+    toolStats: {},
+    cumulativeToolStats: {},
+    readOnlyRun: 0,
+    mutationBoundaryRun: 0,
+    injections: emptyInjectionTally(),
+    agentStarts: {},
+    lastCompaction: null,
   }
+}
 
-  // Only count lines after last bookmark
-  const relevantLines = lastBookmarkIdx === -1
-    ? lines
-    : lines.slice(lastBookmarkIdx + 1)
+function addToolStat(stats: Record<string, ToolStat>, tool: string, chars: number): void {
+  const stat = stats[tool] ?? (stats[tool] = { count: 0, chars: 0 })
+  stat.count++
+  stat.chars += chars
+}
 
-  let toolCalls = 0
-  let agentReturns = 0
-  let totalCharCount = 0
-  let firstTimestamp = 0
-  let lastTimestamp = 0
-  let lastInjectionAt = 0
-  let lastBookmarkAt = 0
-  let lastCompactionAt = 0
-  let lastCompactionIdx = -1
+function cloneToolStats(stats: Record<string, ToolStat>): Record<string, ToolStat> {
+  return Object.fromEntries(Object.entries(stats).map(([tool, stat]) => [tool, { ...stat }]))
+}
 
-  const now = Date.now()
-  let recentAgentTimestamps: number[] = []
-
-  // Parse all lines for global metrics (lastInjectionAt, lastBookmarkAt,
-  // lastCompactionAt, lastCompactionIdx)
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-    const parts = line.split(' ')
-    const type = parts[0]
-    const timestamp = parseInt(parts[1], 10)
-    if (isNaN(timestamp)) continue
-
-    if (type === 'I') {
-      lastInjectionAt = Math.max(lastInjectionAt, timestamp)
-    } else if (type === 'B') {
-      lastBookmarkAt = Math.max(lastBookmarkAt, timestamp)
-      // Reset recentAgentTimestamps at bookmark — windowed metric only
-      recentAgentTimestamps = []
-    } else if (type === 'C') {
-      lastCompactionAt = Math.max(lastCompactionAt, timestamp)
-      lastCompactionIdx = i
-    } else if (type === 'A') {
-      // Collect recent A timestamps for burst detection (last 15 seconds)
-      // Only collects AFTER last B reset — windowed metric
-      if (now - timestamp < 15000) {
-        recentAgentTimestamps.push(timestamp)
-      }
-    }
+export function getCheckpointPath(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): string {
+  return join(stateDir, `${sanitizeSessionId(sessionId)}.checkpoint`)
+}
+
+/**
+ * Folds one log line into the parse state. Header/comment lines are skipped;
+ * extras fields are ignored here.
+ */
+function applyLine(state: LogFoldState, line: string): void {
+  const record = parseRecord(line)
+  if (!record) return
+  const { type, ts: timestamp } = record
+  const charCount = record.chars ?? 0
+
+  // The turn ended — no foreground agent is still running. Leaves the
+  // bookmark/boundary state alone: E is bookkeeping, not activity.
+  if (type === 'E') {
+    state.agentStarts = {}
+    return
+  }
+
+  state.lastLineIsBookmark = line.startsWith('B ')
+
+  // A bookmark opens a new activity window — only count lines after it
+  if (state.lastLineIsBookmark) {
+    state.toolCalls = 0
+    state.agentReturns = 0
+    state.charCount = 0
+    state.firstTimestamp = 0
+    state.lastTimestamp = 0
+    state.toolStats = {}
+    state.readOnlyRun = 0
+    state.mutationBoundaryRun = 0
   }
 
   // Cumulative tokens: count T/A chars only AFTER last compaction marker (C).
   // Pre-compaction content is compressed and no longer in context, so including
   // it would cause post-compaction thresholds to fire immediately (compaction loop).
-  let cumulativeCharCount = 0
-  const cumulativeStartIdx = lastCompactionIdx === -1 ? 0 : lastCompactionIdx + 1
-  for (let i = cumulativeStartIdx; i < lines.length; i++) {
-    const parts = lines[i].split(' ')
-    const type = parts[0]
-    if (type === 'T' || type === 'A') {
-      const rawCharCount = parts[2] ? parseInt(parts[2], 10) : 0
-      cumulativeCharCount += isNaN(rawCharCount) ? 0 : rawCharCount
+  const tool = record.fields.tool || UNKNOWN_TOOL
+  if (type === 'C' && !isNaN(timestamp)) {
+    state.lastCompaction = {
+      at: timestamp,
+      cumulativeCharCount: state.cumulativeCharCount,
+      cumulativeToolStats: state.cumulativeToolStats,
+      lastCompactionAt: state.lastCompactionAt,
     }
+    state.cumulativeCharCount = 0
+    state.cumulativeToolStats = {}
+  } else if (type === 'T' || type === 'A') {
+    state.cumulativeCharCount += charCount
+    if (type === 'T') addToolStat(state.cumulativeToolStats, tool, charCount)
   }
 
-  // Parse relevant lines for metrics
-  for (const line of relevantLines) {
-    const parts = line.split(' ')
-    const type = parts[0]
-    const timestamp = parseInt(parts[1], 10)
-    if (isNaN(timestamp)) continue
-    const rawCharCount = parts[2] ? parseInt(parts[2], 10) : 0
-    const charCount = isNaN(rawCharCount) ? 0 : rawCharCount
+  if (isNaN(timestamp)) return
 
+  tallyInjection(state.injections, record)
+
+  if (type === 'I') {
+    state.lastInjectionAt = Math.max(state.lastInjectionAt, timestamp)
+  } else if (type === 'B') {
+    state.lastBookmarkAt = Math.max(state.lastBookmarkAt, timestamp)
+    // Reset recent agent timestamps at bookmark — windowed metric only
+    state.agentTimestamps = []
+  } else if (type === 'X') {
+    // A skipped /compact never ran — the context still holds everything
+    if (state.lastCompaction && record.fields.inj === String(state.lastCompaction.at)) {
+      undoCompaction(state, state.lastCompaction)
+    }
+  } else if (type === 'C') {
+    state.lastCompactionAt = Math.max(state.lastCompactionAt, timestamp)
+  } else if (type === 'S') {
+    const agent = record.fields.agent || UNKNOWN_AGENT
+    const starts = state.agentStarts[agent] ?? (state.agentStarts[agent] = [])
+    starts.push(timestamp)
+  } else if (type === 'T' || type === 'A') {
     if (type === 'T') {
-      toolCalls++
-      totalCharCount += charCount
-      if (firstTimestamp === 0) firstTimestamp = timestamp
-      lastTimestamp = Math.max(lastTimestamp, timestamp)
-    } else if (type === 'A') {
-      agentReturns++
-      totalCharCount += charCount
-      if (firstTimestamp === 0) firstTimestamp = timestamp
-      lastTimestamp = Math.max(lastTimestamp, timestamp)
+      // A Task's PostToolUse is its agent's return — the oldest start of that type ends
+      if (tool === 'Task') endAgentRun(state, record.fields.agent || UNKNOWN_AGENT)
+      state.toolCalls++
+      addToolStat(state.toolStats, tool, charCount)
+      if (record.fields.mut === '1') {
+        // Pending until the next bookmark: Stop bookmarks it once the turn is over
+        state.mutationBoundaryRun = Math.max(state.mutationBoundaryRun, state.readOnlyRun)
+        state.readOnlyRun = 0
+      } else {
+        state.readOnlyRun++
+      }
+    } else {
+      state.agentReturns++
+      state.agentTimestamps.push(timestamp)
     }
+    state.charCount += charCount
+    if (state.firstTimestamp === 0) state.firstTimestamp = timestamp
+    state.lastTimestamp = Math.max(state.lastTimestamp, timestamp)
   }
+}
 
-  const estimatedTokens = Math.floor(totalCharCount / 4)
+function undoCompaction(state: LogFoldState, undo: CompactionUndo): void {
+  state.cumulativeCharCount += undo.cumulativeCharCount
+  for (const [tool, stat] of Object.entries(undo.cumulativeToolStats)) {
+    const current = state.cumulativeToolStats[tool] ?? (state.cumulativeToolStats[tool] = { count: 0, chars: 0 })
+    current.count += stat.count
+    current.chars += stat.chars
+  }
+  state.lastCompactionAt = undo.lastCompactionAt
+  state.lastCompaction = null
+}
+
+function endAgentRun(state: LogFoldState, agent: string): void {
+  const starts = state.agentStarts[agent]
+  if (!starts) return
+  starts.shift()
+  if (starts.length === 0) delete state.agentStarts[agent]
+}
+
+/** Drops agent starts older than AGENT_RUN_STALE_MS */
+function liveAgentStarts(starts: Record<string, number[]>, now: number): Record<string, number[]> {
+  const live: Record<string, number[]> = {}
+  for (const [agent, timestamps] of Object.entries(starts)) {
+    const recent = timestamps.filter(t => now - t < AGENT_RUN_STALE_MS)
+    if (recent.length > 0) live[agent] = recent
+  }
+  return live
+}
+
+/**
+ * Injection outcomes folded from I, B and X records (see InjectionStats).
+ * Shared by parseLog and `tav stats`, so both apply the same rule.
+ */
+export interface InjectionTally {
+  pendingAt: number        // latest I not yet acknowledged by a B, or 0
+  attempted: number
+  landed: number
+  lost: number             // resolved losses; a pending orphan is added by injectionStats
+  skipped: number
+  consecutiveLost: number
+}
+
+export function emptyInjectionTally(): InjectionTally {
+  return { pendingAt: 0, attempted: 0, landed: 0, lost: 0, skipped: 0, consecutiveLost: 0 }
+}
+
+/** Folds one record into the tally. Records other than I, B and X are ignored. */
+export function tallyInjection(tally: InjectionTally, record: LogRecord): void {
+  if (isNaN(record.ts)) return
+  if (record.type === 'I') {
+    tally.attempted++
+    // A new injection before the previous one landed — that one was lost
+    if (tally.pendingAt > 0) resolveInjection(tally, false)
+    tally.pendingAt = record.ts
+  } else if (record.type === 'B') {
+    if (tally.pendingAt > 0) {
+      const linked = record.fields.inj === String(tally.pendingAt)
+      resolveInjection(tally, linked || record.ts - tally.pendingAt <= INJECTION_LANDING_WINDOW_MS)
+    }
+  } else if (record.type === 'X') {
+    // Preflight found the pane busy and sent nothing — not a lost marker
+    if (tally.pendingAt > 0 && record.fields.inj === String(tally.pendingAt)) {
+      tally.skipped++
+      tally.pendingAt = 0
+    }
+  }
+}
+
+function resolveInjection(tally: InjectionTally, landed: boolean): void {
+  if (landed) {
+    tally.landed++
+    tally.consecutiveLost = 0
+  } else {
+    tally.lost++
+    tally.consecutiveLost++
+  }
+  tally.pendingAt = 0
+}
+
+function applyChunk(state: LogFoldState, chunk: string): void {
+  for (const line of chunk.split('\n')) {
+    if (line.trim()) applyLine(state, line)
+  }
+}
+
+/** The tally as of `now`: an injection unacknowledged past the window is orphaned */
+export function injectionStats(tally: InjectionTally, now: number): InjectionStats {
+  const orphaned = tally.pendingAt > 0 && now - tally.pendingAt > INJECTION_LANDING_WINDOW_MS
+  return {
+    attempted: tally.attempted,
+    landed: tally.landed,
+    lost: tally.lost + (orphaned ? 1 : 0),
+    skipped: tally.skipped,
+    consecutiveLost: tally.consecutiveLost + (orphaned ? 1 : 0),
+    orphanedAt: orphaned ? tally.pendingAt : 0,
+  }
+}
+
+/**
+ * Share of resolved injections that landed, or null before any resolved.
+ * Injections still inside the landing window don't count either way.
+ */
+export function injectionSuccessRate(stats: Pick<InjectionStats, 'landed' | 'lost'>): number | null {
+  const resolved = stats.landed + stats.lost
+  return resolved === 0 ? null : stats.landed / resolved
+}
+
+function toMetrics(state: LogFoldState, now: number): LogMetrics {
   // Activity span — not wall-clock time. Using lastTimestamp instead of
   // Date.now() prevents false triggers after idle periods (e.g. lunch break)
-  const elapsedSeconds = firstTimestamp > 0 && lastTimestamp > firstTimestamp
-    ? Math.floor((lastTimestamp - firstTimestamp) / 1000)
+  const elapsedSeconds = state.firstTimestamp > 0 && state.lastTimestamp > state.firstTimestamp
+    ? Math.floor((state.lastTimestamp - state.firstTimestamp) / 1000)
     : 0
 
-  const lastLineIsBookmark = lines.length > 0 && lines[lines.length - 1].startsWith('B ')
-
   return {
-    toolCalls,
-    agentReturns,
-    estimatedTokens,
-    cumulativeEstimatedTokens: Math.floor(cumulativeCharCount / 4),
+    toolCalls: state.toolCalls,
+    agentReturns: state.agentReturns,
+    estimatedTokens: Math.floor(state.charCount / 4),
+    cumulativeEstimatedTokens: Math.floor(state.cumulativeCharCount / 4),
     elapsedSeconds,
-    lastInjectionAt,
-    lastBookmarkAt,
-    lastCompactionAt,
-    lastLineIsBookmark,
-    recentAgentTimestamps
+    lastInjectionAt: state.lastInjectionAt,
+    lastBookmarkAt: state.lastBookmarkAt,
+    lastCompactionAt: state.lastCompactionAt,
+    lastLineIsBookmark: state.lastLineIsBookmark,
+    // A-line timestamps from the last 15 seconds (for burst detection)
+    recentAgentTimestamps: state.agentTimestamps.filter(t => now - t < RECENT_AGENT_WINDOW_MS),
+    toolStats: cloneToolStats(state.toolStats),
+    cumulativeToolStats: cloneToolStats(state.cumulativeToolStats),
+    mutationBoundaryRun: state.mutationBoundaryRun,
+    injections: injectionStats(state.injections, now),
+    runningAgents: Object.fromEntries(
+      Object.entries(liveAgentStarts(state.agentStarts, now)).map(([agent, starts]) => [agent, starts.length])
+    ),
+  }
+}
+
+function readCheckpoint(path: string): LogCheckpoint | null {
+  try {
+    const checkpoint = JSON.parse(readFileSync(path, 'utf-8')) as LogCheckpoint
+    if (checkpoint.version !== CHECKPOINT_VERSION || typeof checkpoint.offset !== 'number' || !checkpoint.state) {
+      return null
+    }
+    return checkpoint
+  } catch {
+    return null
+  }
+}
+
+function readRange(fd: number, start: number, end: number): Buffer {
+  const buffer = Buffer.alloc(end - start)
+  let read = 0
+  while (read < buffer.length) {
+    const n = readSync(fd, buffer, read, buffer.length - read, start + read)
+    if (n === 0) break
+    read += n
   }
+  return buffer.subarray(0, read)
 }
 
+/**
+ * Parses the activity log into LogMetrics.
+ *
+ * Incremental: a checkpoint (`<session>.checkpoint`) stores the byte offset
+ * of the last complete line parsed and the fold state at that point, so each
+ * hook only reads what was appended since. The checkpoint is discarded and
+ * the log re-parsed from the start when the log's inode changed, it shrank
+ * below the offset, or the bytes before the offset no longer match (log
+ * rewritten). A trailing partial line (concurrent append) is counted in the
+ * returned metrics but not checkpointed.
+ */
+export function parseLog(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): LogMetrics {
+  const logPath = getLogPath(sessionId, stateDir)
+  const checkpointPath = getCheckpointPath(sessionId, stateDir)
+  const now = Date.now()
+
+  let fd: number
+  try {
+    fd = openSync(logPath, 'r')
+  } catch {
+    return toMetrics(emptyFoldState(), now)
+  }
+
+  try {
+    const { size, ino } = fstatSync(fd)
+
+    let state = emptyFoldState()
+    let offset = 0
+    const checkpoint = readCheckpoint(checkpointPath)
+    if (checkpoint && checkpoint.ino === ino && checkpoint.offset <= size) {
+      const expectedTail = Buffer.from(checkpoint.tail, 'base64')
+      const tailStart = checkpoint.offset - expectedTail.length
+      if (tailStart >= 0 && readRange(fd, tailStart, checkpoint.offset).equals(expectedTail)) {
+        state = checkpoint.state
+        offset = checkpoint.offset
+      }
+    }
+
+    const appended = readRange(fd, offset, size)
+    const lastNewline = appended.lastIndexOf(0x0a)
+    const complete = lastNewline === -1 ? Buffer.alloc(0) : appended.subarray(0, lastNewline + 1)
+    const partial = appended.subarray(complete.length)
+
+    applyChunk(state, complete.toString('utf-8'))
+
+    const nextOffset = offset + complete.length
+    if (nextOffset > offset || !checkpoint) {
+      state.agentTimestamps = state.agentTimestamps.filter(t => now - t < RECENT_AGENT_WINDOW_MS)
+      writeCheckpoint(checkpointPath, {
+        version: CHECKPOINT_VERSION,
+        ino,
+        offset: nextOffset,
+        tail: readRange(fd, Math.max(0, nextOffset - CHECKPOINT_TAIL_BYTES), nextOffset).toString('base64'),
+        state,
+      })
+    }
+
+    if (partial.length > 0) {
+      const withPartial: LogFoldState = {
+        ...state,
+        agentTimestamps: [...state.agentTimestamps],
+        agentStarts: Object.fromEntries(Object.entries(state.agentStarts).map(([agent, starts]) => [agent, [...starts]])),
+        toolStats: cloneToolStats(state.toolStats),
+        cumulativeToolStats: cloneToolStats(state.cumulativeToolStats),
+        injections: { ...state.injections },
+      }
+      applyChunk(withPartial, partial.toString('utf-8'))
+      return toMetrics(withPartial, now)
+    }
+    return toMetrics(state, now)
+  } catch {
+    return toMetrics(emptyFoldState(), now)
+  } finally {
+    try { closeSync(fd) } catch { /* ignore */ }
+  }
+}
+
+/**
+ * Best-effort atomic checkpoint write — a failed write only costs a full
+ * re-parse next time. Temp file is per-process so concurrent hooks don't
+ * rename each other's half-written files.
+ */
+function writeCheckpoint(path: string, checkpoint: LogCheckpoint): void {
+  const tmpPath = `${path}.${process.pid}.tmp`
+  try {
+    writeFileSync(tmpPath, JSON.stringify(checkpoint), 'utf-8')
+    renameSync(tmpPath, path)
+  } catch {
+    try { unlinkSync(tmpPath) } catch { /* ignore */ }
+  }
+}
+
+/**
+ * Tool-call metric for minToolCalls: each call since the last bookmark
+ * counts its tool's weight (see resolveToolWeight). Without weights this is
+ * the plain call count.
+ */
+export function weightedToolCalls(metrics: LogMetrics, toolWeights: Record<string, number> = {}): number {
+  if (Object.keys(toolWeights).length === 0) return metrics.toolCalls
+
+  let total = 0
+  for (const [tool, stat] of Object.entries(metrics.toolStats)) {
+    total += stat.count * resolveToolWeight(toolWeights, tool)
+  }
+  return total
+}
+
+/** What made a bookmark injection fire — persisted as `trigger=` on I records */
+export type BookmarkTrigger = 'tokens' | 'tools' | 'time' | 'agents' | 'boundary' | 'retry'
+
 /**
  * Single source of truth for threshold evaluation.
  * Returns whether ANY threshold is met and which one triggered.
@@ -180,29 +634,34 @@ export function parseLog(sessionId: string, stateDir: string = DEFAULT_STATE_DIR
 export function meetsAnyThreshold(
   metrics: LogMetrics,
   thresholds: ThresholdConfig
-): { met: boolean; reason: string } {
+): { met: boolean; reason: string; trigger?: BookmarkTrigger } {
   if (metrics.estimatedTokens >= thresholds.minTokens) {
-    return { met: true, reason: `token threshold met (${metrics.estimatedTokens} >= ${thresholds.minTokens})` }
+    return { met: true, trigger: 'tokens', reason: `token threshold met (${metrics.estimatedTokens} >= ${thresholds.minTokens})` }
   }
-  if (metrics.toolCalls >= thresholds.minToolCalls) {
-    return { met: true, reason: `tool call threshold met (${metrics.toolCalls} >= ${thresholds.minToolCalls})` }
+  const toolCalls = weightedToolCalls(metrics, thresholds.toolWeights)
+  if (toolCalls >= thresholds.minToolCalls) {
+    const label = toolCalls === metrics.toolCalls ? `${toolCalls}` : `weighted ${Math.round(toolCalls * 100) / 100}`
+    return { met: true, trigger: 'tools', reason: `tool call threshold met (${label} >= ${thresholds.minToolCalls})` }
   }
   if (metrics.elapsedSeconds >= thresholds.minSeconds) {
-    return { met: true, reason: `time threshold met (${metrics.elapsedSeconds} >= ${thresholds.minSeconds})` }
+    return { met: true, trigger: 'time', reason: `time threshold met (${metrics.elapsedSeconds} >= ${thresholds.minSeconds})` }
   }
   if (metrics.agentReturns >= thresholds.agentBurstThreshold) {
-    return { met: true, reason: `agent burst threshold met (${metrics.agentReturns} >= ${thresholds.agentBurstThreshold})` }
+    return { met: true, trigger: 'agents', reason: `agent burst threshold met (${metrics.agentReturns} >= ${thresholds.agentBurstThreshold})` }
   }
   return { met: false, reason: 'no threshold met' }
 }
 
+/** Per-session state files removed by cleanOldSessions */
+const SESSION_FILE_SUFFIXES = ['.log', '.json', '.pressure', '.checkpoint', '.queue', '.lock']
+
 export function cleanOldSessions(maxAgeDays: number = 7, stateDir: string = DEFAULT_STATE_DIR): void {
   try {
     const files = readdirSync(stateDir)
     const cutoffTime = Date.now() - (maxAgeDays * 24 * 60 * 60 * 1000)
 
     for (const file of files) {
-      if (!file.endsWith('.log') && !file.endsWith('.json')) continue
+      if (!SESSION_FILE_SUFFIXES.some(suffix => file.endsWith(suffix))) continue
 
       const filePath = join(stateDir, file)
       try {
@@ -0,0 +1,74 @@
+/**
+ * Classifies tool calls as mutating (edits files / repo state) or
+ * read-only, for bookmarking at mutation boundaries.
+ */
+
+import { findToolPattern } from './tool-match'
+
+/**
+ * Commands that change files or repo state when they appear in command
+ * position (start of the command line, or after ; && || | ( $( sudo xargs).
+ */
+const WRITE_COMMANDS = [
+  'rm', 'rmdir', 'mv', 'cp', 'mkdir', 'touch', 'ln', 'chmod', 'chown',
+  'tee', 'truncate', 'dd', 'patch', 'install', 'unzip', 'tar',
+]
+
+const WRITE_SUBCOMMANDS: Record<string, string[]> = {
+  git: ['add', 'commit', 'checkout', 'switch', 'reset', 'restore', 'apply', 'am', 'merge', 'rebase',
+    'cherry-pick', 'revert', 'stash', 'rm', 'mv', 'pull', 'clone', 'init'],
+  npm: ['install', 'i', 'ci', 'uninstall', 'update'],
+  pnpm: ['install', 'i', 'add', 'remove', 'update'],
+  yarn: ['install', 'add', 'remove', 'upgrade'],
+  bun: ['install', 'i', 'add', 'remove', 'update'],
+  pip: ['install', 'uninstall'],
+  cargo: ['add', 'remove', 'install'],
+}
+
+const COMMAND_START = String.raw`(?:^|[;&|(\n]\s*|\$\(\s*|\bsudo\s+|\bxargs\s+)`
+
+const WRITE_COMMAND_RE = new RegExp(`${COMMAND_START}(?:${WRITE_COMMANDS.join('|')})(?=\\s|$)`)
+
+// Global options may precede the subcommand; `-C <dir>` takes an argument
+const WRITE_SUBCOMMAND_RE = new RegExp(
+  `${COMMAND_START}(?:${Object.entries(WRITE_SUBCOMMANDS)
+    .map(([cmd, subs]) => `${cmd}\\s+(?:-C\\s+\\S+\\s+|-\\S+\\s+)*(?:${subs.join('|')})`)
+    .join('|')})(?=\\s|$)`
+)
+
+// In-place editors: sed -i, perl -i / -pi
+const IN_PLACE_RE = new RegExp(`${COMMAND_START}(?:sed|perl)\\s+(?:\\S+\\s+)*-[a-zA-Z]*i`)
+
+/**
+ * Heuristic: does a shell command write files? Looks for output
+ * redirection to a file (not /dev/null or fd duplication), in-place
+ * editors, and known writing commands/subcommands. Quoted strings are not
+ * parsed, so `echo "a > b"` counts as a write — erring towards a bookmark.
+ */
+export function isMutatingBashCommand(command: string): boolean {
+  const withoutHarmless = command
+    .replace(/\d*>&\d+/g, '')              // 2>&1
+    .replace(/&?\d*>>?\s*\/dev\/null/g, '')  // > /dev/null, 2>/dev/null, &>/dev/null
+  if (/>/.test(withoutHarmless.replace(/=>|->|>=/g, ''))) return true
+
+  return WRITE_COMMAND_RE.test(command) ||
+    WRITE_SUBCOMMAND_RE.test(command) ||
+    IN_PLACE_RE.test(command)
+}
+
+/**
+ * Whether a tool call mutates state: the tool matches `mutatingTools`
+ * (exact name or glob), and for Bash the command also looks like a write.
+ */
+export function isMutatingToolCall(
+  toolName: string,
+  toolInput: Record<string, unknown> | undefined,
+  mutatingTools: string[]
+): boolean {
+  if (findToolPattern(mutatingTools, toolName) === null) return false
+  if (toolName === 'Bash') {
+    const command = toolInput?.command
+    return typeof command === 'string' && isMutatingBashCommand(command)
+  }
+  return true
+}
@@ -0,0 +1,218 @@
+import { appendFileSync, readFileSync, writeFileSync, renameSync } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+import { sanitizeSessionId, ensureStateDir } from './log'
+import type { ContextGuardConfig } from './config'
+
+const DEFAULT_STATE_DIR = join(homedir(), '.claude', 'tav', 'state')
+
+/**
+ * Samples considered by the forecaster — older growth is a poor predictor.
+ * The history file is trimmed to this many.
+ */
+export const FORECAST_WINDOW = 12
+
+/**
+ * A pressure drop larger than this between consecutive samples means the
+ * context was compacted or cleared. Growth before it says nothing about
+ * growth after it, so the forecast starts over.
+ */
+const RESET_DROP = 0.05
+
+/**
+ * Forecast-driven actions only apply once pressure reaches this fraction of
+ * the threshold they act on — a steep first turn at 20% shouldn't compact.
+ */
+export const FORECAST_MIN_PRESSURE_RATIO = 0.5
+
+/**
+ * One context pressure reading, taken when a turn (Stop) or an agent
+ * (SubagentStop) ends. Persisted as `S <ts> <pressure>` / `A <ts> <pressure>`.
+ */
+export interface PressureSample {
+  kind: 'turn' | 'agent'
+  ts: number
+  pressure: number   // 0–1 ratio
+}
+
+/**
+ * Growth estimate over the trailing run of samples since the last
+ * compaction. Rates are pressure-ratio deltas (0.05 = 5 points).
+ * "Until" counts are 0 when the threshold is already reached and null when
+ * pressure isn't growing along that dimension.
+ */
+export interface PressureForecast {
+  current: number
+  samples: number
+  perTurn: number | null
+  perAgent: number | null
+  perMinute: number | null
+  turnsUntilCompact: number | null
+  turnsUntilDeny: number | null
+  agentsUntilCompact: number | null
+  agentsUntilDeny: number | null
+  minutesUntilCompact: number | null
+  minutesUntilDeny: number | null
+}
+
+export function getPressureHistoryPath(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): string {
+  return join(stateDir, `${sanitizeSessionId(sessionId)}.pressure`)
+}
+
+function formatSample(sample: PressureSample): string {
+  return `${sample.kind === 'turn' ? 'S' : 'A'} ${sample.ts} ${sample.pressure.toFixed(4)}\n`
+}
+
+export function appendPressureSample(sessionId: string, sample: PressureSample, stateDir: string = DEFAULT_STATE_DIR): void {
+  ensureStateDir(stateDir)
+  appendFileSync(getPressureHistoryPath(sessionId, stateDir), formatSample(sample))
+}
+
+/** Replaces the history with `samples`, atomically */
+function writePressureHistory(sessionId: string, samples: PressureSample[], stateDir: string): void {
+  const path = getPressureHistoryPath(sessionId, stateDir)
+  const tmpPath = `${path}.${process.pid}.tmp`
+  writeFileSync(tmpPath, samples.map(formatSample).join(''))
+  renameSync(tmpPath, path)
+}
+
+/**
+ * Reads the pressure history, oldest first. Malformed lines are skipped;
+ * a missing file is an empty history.
+ */
+export function readPressureHistory(sessionId: string, stateDir: string = DEFAULT_STATE_DIR): PressureSample[] {
+  let content: string
+  try {
+    content = readFileSync(getPressureHistoryPath(sessionId, stateDir), 'utf-8')
+  } catch {
+    return []
+  }
+
+  const samples: PressureSample[] = []
+  for (const line of content.split('\n')) {
+    const [type, rawTs, rawPressure] = line.trim().split(' ')
+    if (type !== 'S' && type !== 'A') continue
+    const ts = parseInt(rawTs, 10)
+    const pressure = parseFloat(rawPressure)
+    if (isNaN(ts) || !Number.isFinite(pressure)) continue
+    samples.push({ kind: type === 'S' ? 'turn' : 'agent', ts, pressure })
+  }
+  return samples
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function stepsUntil(current: number, threshold: number, rate: number | null): number | null {
+  if (current >= threshold) return 0
+  if (rate === null || rate <= 0) return null
+  return Math.ceil((threshold - current) / rate)
+}
+
+function minutesUntil(current: number, threshold: number, rate: number | null): number | null {
+  if (current >= threshold) return 0
+  if (rate === null || rate <= 0) return null
+  return (threshold - current) / rate
+}
+
+/**
+ * Turns or agent returns, whichever comes first, until the forecast reaches
+ * `threshold` — for thresholds other than compactPercent/denyPercent.
+ * Null when pressure isn't growing.
+ */
+export function stepsUntilThreshold(forecast: PressureForecast, threshold: number): number | null {
+  const steps = [stepsUntil(forecast.current, threshold, forecast.perTurn), stepsUntil(forecast.current, threshold, forecast.perAgent)]
+    .filter((n): n is number => n !== null)
+  return steps.length > 0 ? Math.min(...steps) : null
+}
+
+/**
+ * Estimates pressure growth from the trailing run of samples.
+ *
+ * The run starts after the last compaction (samples at or before
+ * `compactedAt` are ignored, as are samples before a drop of more than
+ * RESET_DROP) and is capped at FORECAST_WINDOW samples. Each
+ * sample-to-sample delta is attributed to the event that produced the
+ * later sample, so a turn that merely collects parallel agent output
+ * doesn't inflate per-agent growth.
+ *
+ * Returns null with fewer than two samples in the run — one reading has
+ * no trend.
+ */
+export function forecastPressure(
+  history: PressureSample[],
+  config: ContextGuardConfig,
+  compactedAt: number = 0
+): PressureForecast | null {
+  let start = history.length - 1
+  while (start > 0) {
+    const prev = history[start - 1]
+    if (prev.ts <= compactedAt) break
+    if (prev.pressure - history[start].pressure > RESET_DROP) break
+    if (history.length - start >= FORECAST_WINDOW) break
+    start--
+  }
+  const run = history.slice(Math.max(start, 0)).filter(s => s.ts > compactedAt)
+  if (run.length < 2) return null
+
+  const turnDeltas: number[] = []
+  const agentDeltas: number[] = []
+  for (let i = 1; i < run.length; i++) {
+    const delta = run[i].pressure - run[i - 1].pressure
+    if (run[i].kind === 'turn') turnDeltas.push(delta)
+    else agentDeltas.push(delta)
+  }
+
+  const first = run[0]
+  const last = run[run.length - 1]
+  const elapsedMinutes = (last.ts - first.ts) / 60000
+  const perMinute = elapsedMinutes >= 1 / 60 ? (last.pressure - first.pressure) / elapsedMinutes : null
+  const perTurn = mean(turnDeltas)
+  const perAgent = mean(agentDeltas)
+  const current = last.pressure
+
+  return {
+    current,
+    samples: run.length,
+    perTurn,
+    perAgent,
+    perMinute,
+    turnsUntilCompact: stepsUntil(current, config.compactPercent, perTurn),
+    turnsUntilDeny: stepsUntil(current, config.denyPercent, perTurn),
+    agentsUntilCompact: stepsUntil(current, config.compactPercent, perAgent),
+    agentsUntilDeny: stepsUntil(current, config.denyPercent, perAgent),
+    minutesUntilCompact: minutesUntil(current, config.compactPercent, perMinute),
+    minutesUntilDeny: minutesUntil(current, config.denyPercent, perMinute),
+  }
+}
+
+/**
+ * Appends a sample and returns the forecast including it, keeping only the
+ * trailing FORECAST_WINDOW samples on disk. Used by Stop (kind 'turn') and
+ * SubagentStop (kind 'agent'). Nothing is recorded while neither the guard
+ * nor forecastHorizon is in use. History I/O failures yield a null
+ * forecast — the guard then acts on current pressure.
+ */
+export function recordPressureSample(
+  sessionId: string,
+  kind: PressureSample['kind'],
+  pressure: number,
+  config: ContextGuardConfig,
+  compactedAt: number = 0,
+  stateDir: string = DEFAULT_STATE_DIR
+): PressureForecast | null {
+  if (!config.enabled && config.forecastHorizon <= 0) return null
+  try {
+    appendPressureSample(sessionId, { kind, ts: Date.now(), pressure }, stateDir)
+    let history = readPressureHistory(sessionId, stateDir)
+    if (history.length > FORECAST_WINDOW) {
+      history = history.slice(-FORECAST_WINDOW)
+      writePressureHistory(sessionId, history, stateDir)
+    }
+    return forecastPressure(history, config, compactedAt)
+  } catch {
+    return null
+  }
+}
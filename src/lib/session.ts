@@ -3,7 +3,7 @@ import { existsSync } from 'fs'
 import { join } from 'path'
 import { homedir } from 'os'
 import { sanitizeSessionId, ensureStateDir } from './log'
-import type { TavConfig } from './config'
+import type { TavConfig, ConfigSource } from './config'
 import type { InjectionMethod } from './inject'
 
 /**
@@ -13,6 +13,10 @@ import type { InjectionMethod } from './inject'
 export interface SessionLocation {
   tmuxPane?: string      // tmux pane ID (e.g., "%3")
   screenSession?: string // GNU Screen session name
+  kittyWindow?: string   // kitty window ID (KITTY_WINDOW_ID)
+  weztermPane?: string   // WezTerm pane ID (WEZTERM_PANE)
+  zellijSession?: string // Zellij session name (ZELLIJ_SESSION_NAME)
+  zellijPane?: string    // Zellij pane ID (ZELLIJ_PANE_ID)
   terminalApp?: string   // macOS terminal process name (e.g., "iTerm2", "Terminal")
   tabId?: string         // terminal tab identifier (iTerm2 UUID, Terminal.app index)
   windowId?: string      // terminal window identifier
@@ -32,6 +36,7 @@ export interface SessionConfig {
   location?: SessionLocation   // terminal location at session start
   disabledReason?: string
   cachedConfig?: TavConfig      // Full config loaded at SessionStart (prevents hot-reload race)
+  configSources?: Record<string, ConfigSource>  // winning layer per cachedConfig field (dotted path)
 }
 
 function resolveStateDir(stateDir?: string): string {
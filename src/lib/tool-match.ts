@@ -0,0 +1,56 @@
+/**
+ * Tool name matching for per-tool config (weights, guard rules).
+ *
+ * Patterns are exact tool names or globs where `*` matches any run of
+ * characters and `?` a single character, e.g. "mcp__*" or "mcp__github__*".
+ * Matching is case-sensitive, like Claude Code tool names.
+ */
+
+const patternCache = new Map<string, RegExp>()
+
+function globToRegExp(pattern: string): RegExp {
+  let regex = patternCache.get(pattern)
+  if (!regex) {
+    const source = pattern
+      .split('')
+      .map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('')
+    regex = new RegExp(`^${source}$`)
+    patternCache.set(pattern, regex)
+  }
+  return regex
+}
+
+export function isGlobPattern(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?')
+}
+
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  if (!isGlobPattern(pattern)) return pattern === toolName
+  return globToRegExp(pattern).test(toolName)
+}
+
+/**
+ * Finds the pattern in `patterns` that best matches a tool name: an exact
+ * name wins, otherwise the longest matching glob (the most specific one —
+ * "mcp__github__*" beats "mcp__*"). Returns null when nothing matches.
+ */
+export function findToolPattern(patterns: string[], toolName: string): string | null {
+  if (patterns.includes(toolName)) return toolName
+
+  let best: string | null = null
+  for (const pattern of patterns) {
+    if (!isGlobPattern(pattern) || !matchesToolPattern(pattern, toolName)) continue
+    if (best === null || pattern.length > best.length) best = pattern
+  }
+  return best
+}
+
+/**
+ * Weight of one call to `toolName` under a weights map. Unlisted tools
+ * weigh 1, so an empty map counts every call equally.
+ */
+export function resolveToolWeight(weights: Record<string, number>, toolName: string): number {
+  const pattern = findToolPattern(Object.keys(weights), toolName)
+  return pattern === null ? 1 : weights[pattern]
+}
@@ -11,6 +11,11 @@ export { type JournalEntry, type ParsedLine, parseJSONL } from './lib/jsonl-type
 import type { JournalEntry } from './lib/jsonl-types'
 import { parseJSONL } from './lib/jsonl-types'
 import { isContextLimitStop } from './lib/guards'
+import { entryBookmarkLabel, readBookmarkIndex } from './lib/bookmark-index'
+import type { BookmarkIndexEntry } from './lib/bookmark-index'
+import { loadConfig } from './lib/config'
+import { runConfigCommand } from './config-cli'
+import { runStatsCommand } from './stats-cli'
 
 // --- Types ---
 
@@ -943,6 +948,115 @@ export function listSessions(limit: number = 10): SessionInfo[] {
   return sessions.slice(0, limit)
 }
 
+// --- Bookmark Inspection ---
+
+/**
+ * A marker user entry on the conversation chain (typed, injected or inserted
+ * by repair), with what led up to it — enough to pick the right dot in CC's
+ * rewind menu.
+ */
+export interface ChainBookmark {
+  number: number                    // 1-based, in chain order
+  chainIndex: number
+  uuid: string
+  timestamp: string
+  label: string | null
+  lastAssistantText: string | null  // last assistant text block before the bookmark
+  toolsSince: Record<string, number> // tool_use counts since the previous bookmark
+  contextTokens: number | null      // effective context of the last assistant usage before it
+}
+
+/**
+ * Finds every bookmark on the chain. Tool counts cover assistant entries
+ * between consecutive bookmarks (from the chain start for the first).
+ */
+export function findChainBookmarks(chain: ChainEntry[], marker: string): ChainBookmark[] {
+  const bookmarks: ChainBookmark[] = []
+  let toolsSince: Record<string, number> = {}
+  let lastAssistantText: string | null = null
+  let contextTokens: number | null = null
+
+  for (let i = 0; i < chain.length; i++) {
+    const { entry } = chain[i]
+
+    if (entry.type === 'assistant') {
+      const content = entry.message?.content
+      if (Array.isArray(content)) {
+        for (const block of content as Array<{ type?: string; text?: string; name?: string }>) {
+          if (block?.type === 'tool_use' && block.name) {
+            toolsSince[block.name] = (toolsSince[block.name] ?? 0) + 1
+          } else if (block?.type === 'text' && block.text?.trim()) {
+            lastAssistantText = block.text
+          }
+        }
+      }
+      const usage = entry.message?.usage
+      if (usage) {
+        const tokens = (usage.input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0)
+        if (tokens > 0) contextTokens = tokens
+      }
+      continue
+    }
+
+    const label = entryBookmarkLabel(entry, marker)
+    if (label === null) continue
+
+    bookmarks.push({
+      number: bookmarks.length + 1,
+      chainIndex: i,
+      uuid: entry.uuid,
+      timestamp: entry.timestamp ?? '',
+      label: label || null,
+      lastAssistantText,
+      toolsSince,
+      contextTokens
+    })
+    toolsSince = {}
+  }
+
+  return bookmarks
+}
+
+/** Collapses whitespace and truncates to `max` characters */
+function oneLine(text: string, max: number): string {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line
+}
+
+function formatTokens(tokens: number): string {
+  return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1)}K`
+}
+
+/**
+ * Renders bookmarks for `tav bookmarks`. Trigger reasons and pressure come
+ * from tav's bookmark index when it has an entry for the same uuid.
+ */
+export function formatChainBookmarks(
+  bookmarks: ChainBookmark[],
+  marker: string,
+  indexed: Map<string, BookmarkIndexEntry> = new Map()
+): string {
+  const lines: string[] = []
+  for (const b of bookmarks) {
+    const when = b.timestamp ? b.timestamp.replace('T', ' ').replace(/\.\d+Z$/, 'Z') : 'unknown time'
+    lines.push(`  #${b.number}  ${when}  ${b.label ? `${marker} ${b.label}` : marker}`)
+
+    const details = [`chain[${b.chainIndex}]`, `uuid ${b.uuid.slice(0, 8)}`]
+    if (b.contextTokens !== null) details.push(`context ${formatTokens(b.contextTokens)} tokens`)
+    const known = indexed.get(b.uuid)
+    if (known?.pressure != null) details.push(`pressure ${(known.pressure * 100).toFixed(0)}%`)
+    if (known?.reason) details.push(`reason: ${known.reason}`)
+    lines.push(`      ${details.join('  ')}`)
+
+    const tools = Object.entries(b.toolsSince)
+      .sort((a, c) => c[1] - a[1])
+      .map(([name, count]) => `${name}×${count}`)
+    lines.push(`      tools: ${tools.length > 0 ? tools.join(', ') : 'none'}`)
+    lines.push(`      before: ${b.lastAssistantText ? `"${oneLine(b.lastAssistantText, 100)}"` : '(no assistant text)'}`)
+  }
+  return lines.join('\n')
+}
+
 // --- CLI ---
 
 function formatBytes(bytes: number): string {
@@ -958,6 +1072,9 @@ Usage:
   tav repair <session-id-prefix>        Repair by session ID prefix
   tav repair <path/to/session.jsonl>    Repair by full path
   tav list [--recent N]                 List sessions
+  tav bookmarks <session-id-prefix>     List rewind points with what led up to each
+  tav config check|show|explain         Validate and inspect configuration
+  tav stats [--days N]                  Bookmark trigger reasons across sessions
 
 Options:
   --dry-run        Preview changes without modifying
@@ -970,6 +1087,38 @@ WARNING: CC loading repaired sessions as rewind points is UNVERIFIED.
 Always test on a non-critical session first.`)
 }
 
+/**
+ * Resolves a CLI session argument (path or session ID prefix) to a JSONL
+ * path. Prints the problem and exits when it doesn't resolve to exactly one.
+ */
+function resolveSessionArg(arg: string): string {
+  if (arg.endsWith('.jsonl') || arg.includes('/')) {
+    // Direct path
+    if (!existsSync(arg)) {
+      console.error(`File not found: ${arg}`)
+      process.exit(1)
+    }
+    return arg
+  }
+
+  // Session ID prefix
+  const matches = resolveSessionFiles(arg)
+  if (matches.length === 0) {
+    console.error(`No sessions found matching prefix: ${arg}`)
+    process.exit(1)
+  }
+  if (matches.length > 1) {
+    console.error(`Multiple sessions match prefix "${arg}":`)
+    for (const m of matches) {
+      const name = basename(m, '.jsonl')
+      console.error(`  ${name.slice(0, 8)}  ${m}`)
+    }
+    console.error('\nProvide a longer prefix or use the full path.')
+    process.exit(1)
+  }
+  return matches[0]
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2)
 
@@ -981,6 +1130,14 @@ async function main(): Promise<void> {
   // Parse command
   const command = args[0]
 
+  if (command === 'config') {
+    process.exit(runConfigCommand(args.slice(1)))
+  }
+
+  if (command === 'stats') {
+    process.exit(runStatsCommand(args.slice(1)))
+  }
+
   if (command === 'list') {
     const recentIdx = args.indexOf('--recent')
     const limit = recentIdx !== -1 ? parseInt(args[recentIdx + 1], 10) || 10 : 10
@@ -1003,6 +1160,32 @@ async function main(): Promise<void> {
     return
   }
 
+  if (command === 'bookmarks') {
+    if (!args[1] || args[1].startsWith('--')) {
+      console.error('Usage: tav bookmarks <session-id-prefix> [--marker CHAR]')
+      process.exit(1)
+    }
+    const filePath = resolveSessionArg(args[1])
+    // Default to the configured marker, so custom markers are found
+    const markerIdx = args.indexOf('--marker')
+    const marker = (markerIdx !== -1 && args[markerIdx + 1]) || loadConfig(undefined, process.cwd()).bookmarks.marker
+
+    const chain = buildChain(parseJSONL(readFileSync(filePath, 'utf-8')))
+    const bookmarks = findChainBookmarks(chain, marker)
+    const sessionId = basename(filePath, '.jsonl')
+    if (bookmarks.length === 0) {
+      console.log(`No bookmarks on the conversation chain of ${sessionId}`)
+      return
+    }
+
+    const index = readBookmarkIndex(sessionId)
+    const indexed = new Map((index?.bookmarks ?? []).map(b => [b.uuid, b]))
+    console.log(`Bookmarks in ${sessionId} (${bookmarks.length}, oldest first):`)
+    console.log('')
+    console.log(formatChainBookmarks(bookmarks, marker, indexed))
+    return
+  }
+
   // Parse options
   const options: RepairOptions = { ...DEFAULT_REPAIR_OPTIONS }
   for (let i = 1; i < args.length; i++) {
@@ -1025,34 +1208,7 @@ async function main(): Promise<void> {
     }
   }
 
-  // Resolve file path
-  let filePath: string
-
-  if (command.endsWith('.jsonl') || command.includes('/')) {
-    // Direct path
-    filePath = command
-    if (!existsSync(filePath)) {
-      console.error(`File not found: ${filePath}`)
-      process.exit(1)
-    }
-  } else {
-    // Session ID prefix
-    const matches = resolveSessionFiles(command)
-    if (matches.length === 0) {
-      console.error(`No sessions found matching prefix: ${command}`)
-      process.exit(1)
-    }
-    if (matches.length > 1) {
-      console.error(`Multiple sessions match prefix "${command}":`)
-      for (const m of matches) {
-        const name = basename(m, '.jsonl')
-        console.error(`  ${name.slice(0, 8)}  ${m}`)
-      }
-      console.error('\nProvide a longer prefix or use the full path.')
-      process.exit(1)
-    }
-    filePath = matches[0]
-  }
+  const filePath = resolveSessionArg(command)
 
   console.log(`Repairing: ${filePath}`)
   console.log(`Options: interval=${options.interval}, dryRun=${options.dryRun}, verify=${options.verify}`)
@@ -1,9 +1,8 @@
 #!/usr/bin/env node
 
 import { writeFileSync } from 'fs'
-import { loadConfig } from './lib/config'
-import type { TavConfig } from './lib/config'
-import { ensureStateDir, getLogPath, cleanOldSessions } from './lib/log'
+import { resolveConfig } from './lib/config'
+import { ensureStateDir, getLogPath, cleanOldSessions, LOG_HEADER } from './lib/log'
 import { detectInjectionMethod, checkAccessibilityPermission, detectSessionLocation } from './lib/inject'
 import type { InjectionConfig, SessionLocation } from './lib/inject'
 import { readStdin } from './lib/stdin'
@@ -26,8 +25,8 @@ async function main(): Promise<void> {
     // Extract session_id (support both formats)
     const sessionId = data.session_id || data.sessionId || 'unknown'
 
-    // Load config
-    const config: TavConfig = loadConfig()
+    // Resolve layered config: defaults → global → <cwd>/.claude/tav.json → env
+    const { config, sources } = resolveConfig({ cwd: data.cwd })
 
     // Write minimal config IMMEDIATELY (failure recovery point)
     // If SessionStart crashes after this, downstream hooks have valid config to read
@@ -38,7 +37,8 @@ async function main(): Promise<void> {
       startedAt: Date.now(),
       injectionMethod: 'detecting',
       injectionTarget: '',
-      cachedConfig: config  // Cache full config to prevent hot-reload
+      cachedConfig: config,  // Cache full config to prevent hot-reload
+      configSources: sources
     }
     writeSessionConfig(sessionId, minimalConfig)
 
@@ -53,7 +53,7 @@ async function main(): Promise<void> {
     }
 
     // Detect injection method
-    let injection: InjectionConfig = detectInjectionMethod()
+    let injection: InjectionConfig = detectInjectionMethod(config.injection)
     let disabledReason: string | undefined
 
     // If osascript detected, verify Accessibility permissions are granted.
@@ -99,10 +99,11 @@ async function main(): Promise<void> {
       }
     }
 
-    // Create empty activity log (exclusive create — if a concurrent hook
-    // already created it via appendEvent, don't truncate their data)
+    // Create activity log with its format header (exclusive create — if a
+    // concurrent hook already created it via appendEvent, don't truncate
+    // their data; a headerless log is read as v0)
     const logPath = getLogPath(sessionId)
-    try { writeFileSync(logPath, '', { flag: 'wx' }) } catch { /* already exists */ }
+    try { writeFileSync(logPath, `${LOG_HEADER}\n`, { flag: 'wx' }) } catch { /* already exists */ }
 
     // Output success BEFORE cleanup — cleanup can be slow with many files
     // and must not block the {continue:true} output within the hook timeout
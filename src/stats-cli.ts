@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+
+/**
+ * `tav stats` — aggregate why bookmarks were injected, across sessions.
+ *
+ * Reads every activity log in the state directory. Each injection's I
+ * record carries the trigger and the window metrics it fired on; B records
+ * link back with `inj=<ts>` once the marker lands. The report shows, per
+ * trigger, how often it fired, how often the marker arrived, and the
+ * median activity at the time — the numbers to tune thresholds against.
+ * A per-session section shows how many injections were lost: no B arrived
+ * within the landing window (the user was typing, copy-mode, wrong pane) —
+ * and how many the tmux preflight skipped because the pane was busy.
+ *
+ * Usage:
+ *   bun run src/repair.ts stats [--days N]
+ */
+
+import { readdirSync } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+import {
+  readLogRecords, emptyInjectionTally, tallyInjection, injectionStats, injectionSuccessRate, INJECTION_LANDING_WINDOW_MS,
+} from './lib/log'
+
+const DEFAULT_STATE_DIR = join(homedir(), '.claude', 'tav', 'state')
+
+/** Trigger name for I records written before triggers were logged */
+export const UNKNOWN_TRIGGER = 'unknown'
+
+/** Sessions listed in the per-session section, most recent first */
+const MAX_SESSION_ROWS = 10
+
+/** Metrics snapshot fields on I records, in report column order */
+const METRIC_FIELDS = ['tok', 'tools', 'secs', 'agents'] as const
+type MetricField = typeof METRIC_FIELDS[number]
+
+export interface TriggerStats {
+  trigger: string
+  injected: number
+  landed: number                          // injections a B record links back to
+  metrics: Record<MetricField, number[]>  // values at injection time
+}
+
+export interface SessionInjectionStats {
+  sessionId: string
+  attempted: number
+  landed: number
+  lost: number             // no B within the landing window
+  skipped: number          // preflight found the pane busy (X record)
+  lastInjectionAt: number
+}
+
+export interface BookmarkStats {
+  sessions: number        // sessions with at least one injection
+  perSession: SessionInjectionStats[] // most recent injection first
+  triggers: TriggerStats[] // most frequent first
+  labelled: number        // typed `· <label>` bookmarks
+  latencyMs: number[]     // I → B delay of landed injections
+}
+
+// --- Aggregation ---
+
+/**
+ * Aggregates injections recorded since `since` (epoch ms) across every
+ * session log in `stateDir`. Unreadable logs are skipped.
+ */
+export function collectBookmarkStats(stateDir: string = DEFAULT_STATE_DIR, since: number = 0): BookmarkStats {
+  let files: string[]
+  try {
+    files = readdirSync(stateDir).filter(f => f.endsWith('.log'))
+  } catch {
+    files = []
+  }
+
+  const byTrigger = new Map<string, TriggerStats>()
+  const stats: BookmarkStats = { sessions: 0, perSession: [], triggers: [], labelled: 0, latencyMs: [] }
+  const now = Date.now()
+
+  for (const file of files) {
+    const sessionId = file.slice(0, -'.log'.length)
+    const records = readLogRecords(sessionId, stateDir)
+      .filter(r => !isNaN(r.ts) && r.ts >= since)
+
+    const injections = new Map<number, TriggerStats>()
+    const tally = emptyInjectionTally()
+    let lastInjectionAt = 0
+    for (const record of records) {
+      tallyInjection(tally, record)
+      if (record.type === 'I') {
+        lastInjectionAt = record.ts
+
+        const trigger = record.fields.trigger || UNKNOWN_TRIGGER
+        let entry = byTrigger.get(trigger)
+        if (!entry) {
+          entry = { trigger, injected: 0, landed: 0, metrics: { tok: [], tools: [], secs: [], agents: [] } }
+          byTrigger.set(trigger, entry)
+        }
+        entry.injected++
+        for (const field of METRIC_FIELDS) {
+          const value = parseFloat(record.fields[field])
+          if (Number.isFinite(value)) entry.metrics[field].push(value)
+        }
+        injections.set(record.ts, entry)
+      } else if (record.type === 'B') {
+        if (record.fields.label) stats.labelled++
+        const linked = parseInt(record.fields.inj, 10)
+        const entry = injections.get(linked)
+        if (entry) {
+          entry.landed++
+          stats.latencyMs.push(record.ts - linked)
+          injections.delete(linked)
+        }
+      }
+    }
+    const { attempted, landed, lost, skipped } = injectionStats(tally, now)
+    if (attempted > 0) {
+      stats.sessions++
+      stats.perSession.push({ sessionId, attempted, landed, lost, skipped, lastInjectionAt })
+    }
+  }
+
+  stats.perSession.sort((a, b) => b.lastInjectionAt - a.lastInjectionAt)
+  stats.triggers = [...byTrigger.values()].sort((a, b) => b.injected - a.injected)
+  return stats
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// --- Formatting ---
+
+function formatMedian(values: number[]): string {
+  const value = median(values)
+  return value === null ? '-' : String(Math.round(value))
+}
+
+/**
+ * Per-trigger table: injections, landed markers and median window metrics
+ * (tokens, tool calls, seconds, agent returns) at injection time.
+ */
+export function formatBookmarkStats(stats: BookmarkStats, days?: number): string {
+  const scope = days ? `last ${days} days` : 'all retained logs'
+  if (stats.triggers.length === 0) {
+    return `No bookmark injections recorded (${scope}).`
+  }
+
+  const lines = [
+    `Bookmark injections across ${stats.sessions} session${stats.sessions === 1 ? '' : 's'} (${scope}):`,
+    '',
+    `  ${'trigger'.padEnd(10)}${'injected'.padStart(9)}${'landed'.padStart(8)}  ${'median at injection: tokens'.padStart(28)}${'tools'.padStart(7)}${'secs'.padStart(7)}${'agents'.padStart(8)}`,
+  ]
+  let injected = 0
+  let landed = 0
+  for (const t of stats.triggers) {
+    injected += t.injected
+    landed += t.landed
+    lines.push(
+      `  ${t.trigger.padEnd(10)}${String(t.injected).padStart(9)}${String(t.landed).padStart(8)}  ` +
+      `${formatMedian(t.metrics.tok).padStart(28)}${formatMedian(t.metrics.tools).padStart(7)}` +
+      `${formatMedian(t.metrics.secs).padStart(7)}${formatMedian(t.metrics.agents).padStart(8)}`
+    )
+  }
+  lines.push(`  ${'total'.padEnd(10)}${String(injected).padStart(9)}${String(landed).padStart(8)}`)
+  lines.push('')
+
+  const latency = median(stats.latencyMs)
+  if (latency !== null) lines.push(`Median injection → bookmark delay: ${(latency / 1000).toFixed(1)}s`)
+  lines.push(`Labelled (typed) bookmarks: ${stats.labelled}`)
+
+  lines.push('', `Injection success by session (lost = no bookmark within ${INJECTION_LANDING_WINDOW_MS / 1000}s):`, '')
+  lines.push(`  ${'session'.padEnd(10)}${'injected'.padStart(9)}${'landed'.padStart(8)}${'lost'.padStart(6)}${'skipped'.padStart(9)}${'success'.padStart(9)}`)
+  for (const session of stats.perSession.slice(0, MAX_SESSION_ROWS)) {
+    const success = injectionSuccessRate(session)
+    const rate = success === null ? '-' : `${Math.round(success * 100)}%`
+    lines.push(
+      `  ${session.sessionId.slice(0, 8).padEnd(10)}${String(session.attempted).padStart(9)}` +
+      `${String(session.landed).padStart(8)}${String(session.lost).padStart(6)}${String(session.skipped).padStart(9)}${rate.padStart(9)}`
+    )
+  }
+  if (stats.perSession.length > MAX_SESSION_ROWS) {
+    lines.push(`  … ${stats.perSession.length - MAX_SESSION_ROWS} older sessions`)
+  }
+  return lines.join('\n')
+}
+
+// --- CLI ---
+
+function printUsage(): void {
+  console.log(`tav stats — Why bookmarks were injected, across sessions
+
+Usage:
+  tav stats [--days N]
+
+Options:
+  --days N         Only count injections from the last N days (default: all retained logs)`)
+}
+
+/**
+ * Runs `tav stats` and returns the process exit code.
+ */
+export function runStatsCommand(args: string[], stateDir: string = DEFAULT_STATE_DIR): number {
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage()
+    return 0
+  }
+
+  const daysIdx = args.indexOf('--days')
+  const days = daysIdx !== -1 ? parseInt(args[daysIdx + 1], 10) : undefined
+  if (days !== undefined && !(days > 0)) {
+    console.error('--days expects a positive number')
+    return 1
+  }
+
+  const since = days ? Date.now() - days * 24 * 60 * 60 * 1000 : 0
+  console.log(formatBookmarkStats(collectBookmarkStats(stateDir, since), days))
+  return 0
+}
+
+if (require.main === module) {
+  process.exit(runStatsCommand(process.argv.slice(2)))
+}
@@ -1,9 +1,10 @@
-import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
 import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import { handlePostToolUse, handleSubagentStop } from '../src/bookmark-activity'
-import { sanitizeSessionId } from '../src/lib/log'
+import { sanitizeSessionId, parseLog } from '../src/lib/log'
+import * as inject from '../src/lib/inject'
 import { DEFAULT_CONFIG } from '../src/lib/config'
 import type { TavConfig } from '../src/lib/config'
 
@@ -57,15 +58,19 @@ describe('bookmark-activity', () => {
   let testDir: string
   let stateDir: string
   let logDir: string
+  let spawnInjector: ReturnType<typeof spyOn>
 
   beforeEach(() => {
     const env = createTestEnv()
     testDir = env.testDir
     stateDir = env.stateDir
     logDir = env.logDir
+    // A real injector would outlive the test and re-create logDir
+    spawnInjector = spyOn(inject, 'spawnInjector').mockImplementation(() => {})
   })
 
   afterEach(() => {
+    spawnInjector.mockRestore()
     cleanup(testDir)
   })
 
@@ -95,6 +100,36 @@ describe('bookmark-activity', () => {
       expect(parts[2]).toBe('1234')
     })
 
+    test('records tool name as an extra field', () => {
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Read', tool_response: 'abc' }, logDir)
+
+      const lastLine = readLog(TEST_SESSION_ID, logDir).trim().split('\n').pop()!
+      expect(lastLine).toMatch(/^T \d+ 3 tool=Read$/)
+    })
+
+    test('records subagent type for Task calls', () => {
+      handlePostToolUse(TEST_SESSION_ID, {
+        tool_name: 'Task',
+        tool_input: { subagent_type: 'Explore', prompt: 'find it' },
+        tool_response: 'done'
+      }, logDir)
+
+      const lastLine = readLog(TEST_SESSION_ID, logDir).trim().split('\n').pop()!
+      expect(lastLine).toMatch(/^T \d+ 4 tool=Task agent=Explore$/)
+    })
+
+    test('per-tool stats reach LogMetrics', () => {
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Read', tool_response: 'x'.repeat(4000) }, logDir)
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Read', tool_response: 'x'.repeat(2000) }, logDir)
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Bash', tool_response: 'ok' }, logDir)
+
+      const metrics = parseLog(TEST_SESSION_ID, logDir)
+      expect(metrics.toolStats).toEqual({
+        Read: { count: 2, chars: 6000 },
+        Bash: { count: 1, chars: 2 },
+      })
+    })
+
     test('handles toolResponse variant', () => {
       const data = { toolResponse: 'test' }
       handlePostToolUse(TEST_SESSION_ID, data, logDir)
@@ -141,6 +176,55 @@ describe('bookmark-activity', () => {
     })
   })
 
+  describe('handlePostToolUse mutation boundary', () => {
+    const BOUNDARY_CONFIG: TavConfig = {
+      ...ACTIVE_CONFIG,
+      bookmarks: {
+        ...ACTIVE_CONFIG.bookmarks,
+        mutationBoundary: { ...DEFAULT_CONFIG.bookmarks.mutationBoundary, enabled: true },
+      },
+    }
+
+    function readOnlyCalls(count: number) {
+      for (let i = 0; i < count; i++) {
+        handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Read', tool_response: 'x' }, logDir, stateDir)
+      }
+    }
+
+    test('tags mutating calls with mut=1', () => {
+      writeSessionConfig(TEST_SESSION_ID, stateDir, { injectionMethod: 'disabled', cachedConfig: BOUNDARY_CONFIG })
+
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Edit', tool_input: { file_path: 'a.ts' }, tool_response: 'ok' }, logDir, stateDir)
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Bash', tool_input: { command: 'ls -la' }, tool_response: 'ok' }, logDir, stateDir)
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Bash', tool_input: { command: 'echo hi > out.txt' }, tool_response: '' }, logDir, stateDir)
+
+      const lines = readLog(TEST_SESSION_ID, logDir).trim().split('\n')
+      expect(lines[0]).toMatch(/^T \d+ 2 tool=Edit mut=1$/)
+      expect(lines[1]).toMatch(/^T \d+ 2 tool=Bash$/)
+      expect(lines[2]).toMatch(/^T \d+ 0 tool=Bash mut=1$/)
+    })
+
+    test('does not tag calls while the boundary is disabled', () => {
+      writeSessionConfig(TEST_SESSION_ID, stateDir, { injectionMethod: 'disabled', cachedConfig: DEFAULT_CONFIG })
+
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Edit', tool_input: { file_path: 'a.ts' }, tool_response: 'ok' }, logDir, stateDir)
+
+      expect(readLog(TEST_SESSION_ID, logDir).trim()).toMatch(/^T \d+ 2 tool=Edit$/)
+    })
+
+    test('leaves the boundary pending for Stop instead of injecting mid-turn', () => {
+      writeSessionConfig(TEST_SESSION_ID, stateDir, { injectionMethod: 'tmux', injectionTarget: '%1', cachedConfig: BOUNDARY_CONFIG })
+
+      readOnlyCalls(3)
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Write', tool_input: { file_path: 'a.ts' }, tool_response: 'ok' }, logDir, stateDir)
+      handlePostToolUse(TEST_SESSION_ID, { tool_name: 'Read', tool_response: 'x' }, logDir, stateDir)
+
+      const iLines = readLog(TEST_SESSION_ID, logDir).trim().split('\n').filter(line => line.startsWith('I '))
+      expect(iLines.length).toBe(0)
+      expect(parseLog(TEST_SESSION_ID, logDir).mutationBoundaryRun).toBe(3)
+    })
+  })
+
   describe('handleSubagentStop', () => {
     test('appends A line with correct format', () => {
       writeSessionConfig(TEST_SESSION_ID, stateDir, {
@@ -0,0 +1,172 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdirSync, rmSync, writeFileSync, appendFileSync, existsSync, statSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  updateBookmarkIndex, readBookmarkIndex, findBookmark, getBookmarkIndexPath, parseBookmarkPrompt,
+} from '../src/lib/bookmark-index'
+import { appendRecord } from '../src/lib/log'
+
+const SESSION = 'index-session'
+const MARKER = '·'
+
+function userEntry(uuid: string, ts: number, content: unknown, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    type: 'user',
+    uuid,
+    timestamp: new Date(ts).toISOString(),
+    message: { role: 'user', content },
+    userType: 'external',
+    ...extra,
+  }) + '\n'
+}
+
+function assistantEntry(uuid: string, ts: number): string {
+  return JSON.stringify({
+    type: 'assistant',
+    uuid,
+    timestamp: new Date(ts).toISOString(),
+    message: { role: 'assistant', content: [{ type: 'text', text: 'ok' }] },
+  }) + '\n'
+}
+
+describe('bookmark-index', () => {
+  let testDir: string
+  let jsonlPath: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `tav-index-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(testDir, { recursive: true })
+    jsonlPath = join(testDir, `${SESSION}.jsonl`)
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  test('parseBookmarkPrompt accepts the bare marker and labels', () => {
+    expect(parseBookmarkPrompt('·', MARKER)).toBe('')
+    expect(parseBookmarkPrompt('· before-migration', MARKER)).toBe('before-migration')
+    expect(parseBookmarkPrompt('hello', MARKER)).toBeNull()
+  })
+
+  test('indexes marker entries with uuid, label, reason and pressure', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    appendRecord(SESSION, { type: 'I', ts: t0, fields: { reason: 'tool call threshold met (15 >= 15)' } }, testDir)
+    appendRecord(SESSION, { type: 'B', ts: t0 + 1600, fields: { pressure: '0.4210' } }, testDir)
+    appendRecord(SESSION, { type: 'B', ts: t0 + 60000, fields: { label: 'before-migration', pressure: '0.5000' } }, testDir)
+
+    writeFileSync(jsonlPath,
+      userEntry('u-1', t0 - 5000, 'do the thing') +
+      assistantEntry('a-1', t0 - 4000) +
+      userEntry('u-2', t0 + 1700, MARKER) +
+      assistantEntry('a-2', t0 + 2000) +
+      userEntry('u-3', t0 + 60100, [{ type: 'text', text: '· before-migration' }]))
+
+    const index = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+
+    expect(index.bookmarks).toEqual([
+      { number: 1, uuid: 'u-2', timestamp: new Date(t0 + 1700).toISOString(), label: null, reason: 'tool call threshold met (15 >= 15)', pressure: 0.421 },
+      { number: 2, uuid: 'u-3', timestamp: new Date(t0 + 60100).toISOString(), label: 'before-migration', reason: 'manual', pressure: 0.5 },
+    ])
+    expect(readBookmarkIndex(SESSION, testDir)).toEqual(index)
+  })
+
+  test('B records linked with inj= take the reason of that injection', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    appendRecord(SESSION, { type: 'I', ts: t0, fields: { reason: 'time threshold met (130 >= 120)' } }, testDir)
+    appendRecord(SESSION, { type: 'I', ts: t0 + 40000, fields: { reason: 'token threshold met (6100 >= 6000)' } }, testDir)
+    appendRecord(SESSION, { type: 'B', ts: t0 + 41500, fields: { inj: String(t0 + 40000) } }, testDir)
+    writeFileSync(jsonlPath, userEntry('u-1', t0 + 41600, MARKER))
+
+    const [entry] = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir).bookmarks
+    expect(entry.reason).toBe('token threshold met (6100 >= 6000)')
+  })
+
+  test('skips sidechain entries and prompts that merely start with the marker', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    writeFileSync(jsonlPath,
+      userEntry('side', t0, MARKER, { isSidechain: true }) +
+      userEntry('text', t0 + 1000, '·not a bookmark'))
+
+    expect(updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir).bookmarks).toEqual([])
+  })
+
+  test('marker entries without a nearby B record have unknown reason', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    // PreCompact-style B long before the marker
+    appendRecord(SESSION, { type: 'B', ts: t0 - 600000, fields: {} }, testDir)
+    writeFileSync(jsonlPath, userEntry('u-1', t0, MARKER))
+
+    const [entry] = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir).bookmarks
+    expect(entry.reason).toBeNull()
+    expect(entry.pressure).toBeNull()
+  })
+
+  test('updates scan only appended lines and leave partial lines for later', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    writeFileSync(jsonlPath, userEntry('u-1', t0, MARKER))
+    updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+
+    const partial = userEntry('u-2', t0 + 5000, MARKER)
+    appendFileSync(jsonlPath, partial.slice(0, 20))
+    expect(updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir).bookmarks).toHaveLength(1)
+
+    appendFileSync(jsonlPath, partial.slice(20))
+    const index = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+    expect(index.bookmarks.map(b => [b.number, b.uuid])).toEqual([[1, 'u-1'], [2, 'u-2']])
+  })
+
+  test('folds only activity log lines appended since the last update', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    appendRecord(SESSION, { type: 'I', ts: t0, fields: { reason: 'time threshold met' } }, testDir)
+    writeFileSync(jsonlPath, assistantEntry('a-1', t0))
+    const first = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+    expect(first.log.scan.offset).toBe(statSync(join(testDir, `${SESSION}.log`)).size)
+    expect(first.log.pendingReason).toBe('time threshold met')
+
+    // The I folded earlier still gives the reason for a B appended later
+    appendRecord(SESSION, { type: 'B', ts: t0 + 1000, fields: { pressure: '0.2000' } }, testDir)
+    appendFileSync(jsonlPath, userEntry('u-1', t0 + 1100, MARKER))
+    const [entry] = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir).bookmarks
+    expect(entry.reason).toBe('time threshold met')
+    expect(entry.pressure).toBe(0.2)
+  })
+
+  test('rewritten JSONL is re-scanned, keeping joined data', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    appendRecord(SESSION, { type: 'B', ts: t0, fields: { pressure: '0.3000' } }, testDir)
+    writeFileSync(jsonlPath, assistantEntry('a-1', t0 - 1000).repeat(5) + userEntry('u-1', t0, MARKER))
+    updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+
+    // Log cleaned up, JSONL rewritten shorter
+    rmSync(join(testDir, `${SESSION}.log`))
+    writeFileSync(jsonlPath, userEntry('u-1', t0, MARKER))
+
+    const index = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+    expect(index.bookmarks).toHaveLength(1)
+    expect(index.bookmarks[0].pressure).toBe(0.3)
+    expect(index.bookmarks[0].reason).toBe('manual')
+  })
+
+  test('unreadable JSONL leaves the index untouched', () => {
+    const index = updateBookmarkIndex(SESSION, join(testDir, 'missing.jsonl'), MARKER, testDir)
+    expect(index.bookmarks).toEqual([])
+    expect(existsSync(getBookmarkIndexPath(SESSION, testDir))).toBe(false)
+  })
+
+  test('findBookmark resolves number, label and uuid prefix', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00Z')
+    writeFileSync(jsonlPath,
+      userEntry('aaaa-1111', t0, MARKER) +
+      userEntry('bbbb-2222', t0 + 1000, '· risky') +
+      userEntry('cccc-3333', t0 + 2000, '· risky'))
+    const index = updateBookmarkIndex(SESSION, jsonlPath, MARKER, testDir)
+
+    expect(findBookmark(index, '1')?.uuid).toBe('aaaa-1111')
+    expect(findBookmark(index, 'risky')?.uuid).toBe('cccc-3333')
+    expect(findBookmark(index, 'bbbb')?.uuid).toBe('bbbb-2222')
+    expect(findBookmark(index, '9')).toBeNull()
+    expect(findBookmark(index, 'zzz')).toBeNull()
+  })
+})
@@ -22,7 +22,12 @@ function defaultMetrics(): LogMetrics {
     lastBookmarkAt: 0,
     lastCompactionAt: 0,
     lastLineIsBookmark: false,
-    recentAgentTimestamps: []
+    recentAgentTimestamps: [],
+    toolStats: {},
+    cumulativeToolStats: {},
+    mutationBoundaryRun: 0,
+    injections: { attempted: 0, landed: 0, lost: 0, skipped: 0, consecutiveLost: 0, orphanedAt: 0 },
+    runningAgents: {},
   }
 }
 
@@ -168,6 +173,21 @@ describe('evaluateBookmark', () => {
     expect(result.reason).toBe('no threshold met')
   })
 
+  test('bookmarks a mutation boundary left pending during the turn', () => {
+    const config: TavConfig = {
+      ...ACTIVE_CONFIG,
+      bookmarks: {
+        ...ACTIVE_CONFIG.bookmarks,
+        mutationBoundary: { ...DEFAULT_CONFIG.bookmarks.mutationBoundary, enabled: true, minReadOnlyRun: 3 },
+      },
+    }
+    const metrics = { ...defaultMetrics(), toolCalls: 6, mutationBoundaryRun: 4 }
+    const result = evaluateBookmark({}, config, metrics, 'tmux')
+
+    expect(result.shouldInject).toBe(true)
+    expect(result.reason).toContain('mutation boundary')
+  })
+
   test('guard conditions take priority over thresholds', () => {
     const config: TavConfig = {
       ...DEFAULT_CONFIG,
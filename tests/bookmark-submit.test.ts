@@ -1,6 +1,8 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
-import { processBookmark } from '../src/bookmark-submit'
-import { appendEvent } from '../src/lib/log'
+import { processBookmark, bookmarkRecordFields } from '../src/bookmark-submit'
+import { parseBookmarkPrompt, MAX_BOOKMARK_LABEL_LENGTH } from '../src/lib/bookmark-index'
+import { DEFAULT_CONFIG } from '../src/lib/config'
+import { appendEvent, appendRecord } from '../src/lib/log'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import * as os from 'node:os'
@@ -79,6 +81,40 @@ describe('processBookmark', () => {
   })
 })
 
+describe('labelled bookmarks', () => {
+  const marker = '\u00B7'
+
+  test('marker followed by a label is a named bookmark', () => {
+    const { isBookmark, label, output } = processBookmark('· before-migration', marker)
+
+    expect(isBookmark).toBe(true)
+    expect(label).toBe('before-migration')
+    expect(output.hookSpecificOutput?.additionalContext).toContain('Do not respond')
+  })
+
+  test('bare marker has an empty label', () => {
+    expect(processBookmark('·', marker).label).toBe('')
+  })
+
+  test('label whitespace is collapsed', () => {
+    expect(parseBookmarkPrompt('  ·   before   the  refactor  ', marker)).toBe('before the refactor')
+  })
+
+  test('marker must be separated from the label', () => {
+    expect(parseBookmarkPrompt('·before', marker)).toBeNull()
+  })
+
+  test('multi-line or overlong text is a real prompt', () => {
+    expect(parseBookmarkPrompt('· fix this\nand that', marker)).toBeNull()
+    expect(parseBookmarkPrompt(`· ${'x'.repeat(MAX_BOOKMARK_LABEL_LENGTH)}`, marker)).toBe('x'.repeat(MAX_BOOKMARK_LABEL_LENGTH))
+    expect(parseBookmarkPrompt(`· ${'x'.repeat(MAX_BOOKMARK_LABEL_LENGTH + 1)}`, marker)).toBeNull()
+  })
+
+  test('works with a multi-character marker', () => {
+    expect(parseBookmarkPrompt('### checkpoint', '###')).toBe('checkpoint')
+  })
+})
+
 describe('bookmark-submit integration', () => {
   let tempDir: string
   let originalLogDir: string | undefined
@@ -123,4 +159,35 @@ describe('bookmark-submit integration', () => {
     expect(lines[0]).toMatch(/^T \d+ \d+$/)
     expect(lines[1]).toMatch(/^B \d+$/)
   })
+
+  test('label is stored on the B record', () => {
+    const sessionId = 'label-test'
+    const { label } = processBookmark('· before migration', '\u00B7')
+
+    // Append B record (simulating what main() does)
+    appendRecord(sessionId, { type: 'B', ts: Date.now(), fields: { label } }, tempDir)
+
+    const line = fs.readFileSync(path.join(tempDir, `${sessionId}.log`), 'utf8').trim().split('\n').pop()!
+    expect(line).toMatch(/^B \d+ label=before%20migration$/)
+  })
+
+  test('B record links to a recent pending injection', () => {
+    const sessionId = 'inj-test'
+    const injectedAt = Date.now() - 1500
+    appendRecord(sessionId, { type: 'I', ts: injectedAt, fields: { trigger: 'tokens' } }, tempDir)
+
+    const fields = bookmarkRecordFields(sessionId, '', DEFAULT_CONFIG, null, tempDir)
+    expect(fields.inj).toBe(String(injectedAt))
+    expect(fields.pressure).toMatch(/^\d\.\d{4}$/)
+  })
+
+  test('labelled and late bookmarks are not linked to an injection', () => {
+    const sessionId = 'inj-late'
+    appendRecord(sessionId, { type: 'I', ts: Date.now() - 1500, fields: {} }, tempDir)
+    expect(bookmarkRecordFields(sessionId, 'mine', DEFAULT_CONFIG, null, tempDir)).not.toHaveProperty('inj')
+
+    const stale = 'inj-stale'
+    appendRecord(stale, { type: 'I', ts: Date.now() - 120000, fields: {} }, tempDir)
+    expect(bookmarkRecordFields(stale, '', DEFAULT_CONFIG, null, tempDir)).not.toHaveProperty('inj')
+  })
 })
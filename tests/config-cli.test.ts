@@ -0,0 +1,161 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { resolveConfig, DEFAULT_CONFIG } from '../src/lib/config'
+import {
+  countConfigErrors,
+  formatConfigCheck,
+  formatConfigShow,
+  formatConfigExplain,
+  runConfigCommand,
+} from '../src/config-cli'
+
+describe('config-cli', () => {
+  let tempDir: string
+  let globalPath: string
+
+  function resolve(config: unknown) {
+    writeFileSync(globalPath, JSON.stringify(config), 'utf-8')
+    return resolveConfig({ globalPath, env: {}, quiet: true })
+  }
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `tav-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(tempDir, { recursive: true })
+    globalPath = join(tempDir, 'config.json')
+  })
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('resolveConfig issues', () => {
+    test('reports rejected values with reason and fallback', () => {
+      const resolved = resolve({ bookmarks: { thresholds: { minTokens: 'banana' } } })
+
+      expect(resolved.issues).toHaveLength(1)
+      expect(resolved.issues[0]).toEqual({
+        source: 'global',
+        path: 'bookmarks.thresholds.minTokens',
+        value: 'banana',
+        result: DEFAULT_CONFIG.bookmarks.thresholds.minTokens,
+        kind: 'rejected',
+        reason: 'not a number',
+      })
+    })
+
+    test('reports numeric strings as coerced', () => {
+      const resolved = resolve({ bookmarks: { thresholds: { minToolCalls: '10' } } })
+
+      expect(resolved.issues).toHaveLength(1)
+      expect(resolved.issues[0].kind).toBe('coerced')
+      expect(resolved.issues[0].result).toBe(10)
+    })
+
+    test('explains negative, non-boolean and out-of-range values', () => {
+      const resolved = resolve({
+        bookmarks: { enabled: 'yes', thresholds: { cooldownSeconds: -5 } },
+        contextGuard: { denyPercent: 85 },
+      })
+
+      const byPath = Object.fromEntries(resolved.issues.map(i => [i.path, i]))
+      expect(byPath['bookmarks.enabled'].reason).toContain('expected true or false')
+      expect(byPath['bookmarks.thresholds.cooldownSeconds'].reason).toBe('must not be negative')
+      expect(byPath['contextGuard.denyPercent'].reason).toContain('between 0 and 1')
+    })
+
+    test('reports legacy threshold conversion', () => {
+      const resolved = resolve({ contextGuard: { compactThreshold: 30000 } })
+
+      expect(resolved.issues).toHaveLength(1)
+      expect(resolved.issues[0].kind).toBe('legacy')
+      expect(resolved.issues[0].path).toBe('contextGuard.compactThreshold')
+      expect(resolved.issues[0].reason).toContain('converted to compactPercent 0.6')
+    })
+
+    test('reports legacy threshold shadowed by percentage field', () => {
+      const resolved = resolve({ contextGuard: { denyThreshold: 45000, denyPercent: 0.9 } })
+
+      expect(resolved.issues).toHaveLength(1)
+      expect(resolved.issues[0].reason).toContain('ignored because denyPercent is also set')
+    })
+
+    test('rejects a section replaced by a scalar without crashing', () => {
+      const resolved = resolve({ bookmarks: { thresholds: 5, enabled: true } })
+
+      expect(resolved.config.bookmarks.enabled).toBe(true)
+      expect(resolved.config.bookmarks.thresholds).toEqual(DEFAULT_CONFIG.bookmarks.thresholds)
+      expect(resolved.issues[0].path).toBe('bookmarks.thresholds')
+      expect(resolved.issues[0].kind).toBe('rejected')
+    })
+
+    test('records unreadable layer files', () => {
+      writeFileSync(globalPath, '{ broken', 'utf-8')
+      const resolved = resolveConfig({ globalPath, env: {}, quiet: true })
+
+      expect(resolved.layers[0].status).toBe('error')
+      expect(resolved.layers[0].error).toBeDefined()
+      expect(countConfigErrors(resolved)).toBe(1)
+    })
+  })
+
+  describe('formatters', () => {
+    test('check report lists issues and totals', () => {
+      const report = formatConfigCheck(resolve({
+        bookmarks: { thresholds: { minTokens: 'banana', minToolCalls: '10' } }
+      }))
+
+      expect(report).toContain('✘ bookmarks.thresholds.minTokens: "banana" rejected — not a number (using 6000)')
+      expect(report).toContain('⚠ bookmarks.thresholds.minToolCalls: "10" coerced to 10')
+      expect(report).toContain('1 error, 1 warning')
+    })
+
+    test('check report on clean config says no issues', () => {
+      const report = formatConfigCheck(resolve({ bookmarks: { enabled: true } }))
+      expect(report).toContain('No issues found.')
+      expect(report).toContain('0 errors, 0 warnings')
+    })
+
+    test('show prints effective config as JSON', () => {
+      const output = formatConfigShow(resolve({ bookmarks: { enabled: true } }))
+      const parsed = JSON.parse(output)
+      expect(parsed.bookmarks.enabled).toBe(true)
+      expect(parsed.contextGuard).toEqual(DEFAULT_CONFIG.contextGuard)
+    })
+
+    test('explain shows each field with its source layer', () => {
+      const output = formatConfigExplain(resolve({ bookmarks: { thresholds: { minToolCalls: 7 } } }))
+      expect(output).toMatch(/bookmarks\.thresholds\.minToolCalls\s+7\s+\[global\]/)
+      expect(output).toMatch(/bookmarks\.thresholds\.minTokens\s+6000\s+\[default\]/)
+    })
+  })
+
+  describe('runConfigCommand', () => {
+    test('check exits 1 when a value is rejected, 0 otherwise', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      try {
+        writeFileSync(globalPath, JSON.stringify({ bookmarks: { thresholds: { minTokens: 'banana' } } }))
+        expect(runConfigCommand(['check'], { globalPath, env: {}, cwd: tempDir })).toBe(1)
+
+        writeFileSync(globalPath, JSON.stringify({ bookmarks: { thresholds: { minTokens: '5000' } } }))
+        expect(runConfigCommand(['check'], { globalPath, env: {}, cwd: tempDir })).toBe(0)
+      } finally {
+        log.mockRestore()
+      }
+    })
+
+    test('unknown subcommand exits 1', () => {
+      const log = spyOn(console, 'log').mockImplementation(() => {})
+      const error = spyOn(console, 'error').mockImplementation(() => {})
+      try {
+        expect(runConfigCommand(['frobnicate'], { globalPath, env: {}, cwd: tempDir })).toBe(1)
+      } finally {
+        log.mockRestore()
+        error.mockRestore()
+      }
+    })
+  })
+})
@@ -1,9 +1,9 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
-import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs'
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import type { TavConfig } from '../src/lib/config'
-import { loadConfig, DEFAULT_CONFIG } from '../src/lib/config'
+import { loadConfig, resolveConfig, envVarName, suggestConfigKey, DEFAULT_CONFIG, CONFIG_MAP_SECTIONS } from '../src/lib/config'
 
 describe('config loader', () => {
   let tempDir: string
@@ -37,7 +37,7 @@ describe('config loader', () => {
           minTokens: 20000,
           // Intentionally omit other threshold fields to test deep merge
         } as any,
-      },
+      } as any,
     }
 
     writeFileSync(configPath, JSON.stringify(partialConfig), 'utf-8')
@@ -162,7 +162,7 @@ describe('config loader', () => {
     expect(DEFAULT_CONFIG.bookmarks.thresholds.agentBurstThreshold).toBe(3)
     expect(DEFAULT_CONFIG.bookmarks.thresholds.cooldownSeconds).toBe(25)
     expect(DEFAULT_CONFIG.contextGuard.enabled).toBe(false)
-    expect(DEFAULT_CONFIG.contextGuard.contextWindowTokens).toBe(200000)
+    expect(DEFAULT_CONFIG.contextGuard.contextWindowTokens).toBe(0)
     expect(DEFAULT_CONFIG.contextGuard.compactPercent).toBe(0.76)
     expect(DEFAULT_CONFIG.contextGuard.denyPercent).toBe(0.85)
     expect(DEFAULT_CONFIG.contextGuard.compactCooldownSeconds).toBe(120)
@@ -179,7 +179,7 @@ describe('config loader', () => {
     expect(config.contextGuard.compactPercent).toBe(0.60)
     // Missing fields fall back to defaults
     expect(config.contextGuard.enabled).toBe(false)
-    expect(config.contextGuard.contextWindowTokens).toBe(200000)
+    expect(config.contextGuard.contextWindowTokens).toBe(0)
     expect(config.contextGuard.denyPercent).toBe(0.85)
     expect(config.contextGuard.compactCooldownSeconds).toBe(120)
     expect(config.contextGuard.responseRatio).toBe(0.25)
@@ -304,3 +304,391 @@ describe('config loader', () => {
     expect(config.contextGuard.compactPercent).toBe(1.0)
   })
 })
+
+describe('layered config resolution', () => {
+  let tempDir: string
+  let globalPath: string
+  let projectDir: string
+
+  function writeProjectConfig(config: unknown): void {
+    mkdirSync(join(projectDir, '.claude'), { recursive: true })
+    writeFileSync(join(projectDir, '.claude', 'tav.json'), JSON.stringify(config), 'utf-8')
+  }
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `tav-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    projectDir = join(tempDir, 'project')
+    mkdirSync(projectDir, { recursive: true })
+    globalPath = join(tempDir, 'config.json')
+  })
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('all fields come from defaults when no layer exists', () => {
+    const { config, sources } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+    expect(config).toEqual(DEFAULT_CONFIG)
+    expect(sources['bookmarks.thresholds.minToolCalls']).toBe('default')
+    expect(sources['contextGuard.enabled']).toBe('default')
+  })
+
+  test('project config overrides global config field by field', () => {
+    writeFileSync(globalPath, JSON.stringify({
+      bookmarks: { enabled: true, thresholds: { minToolCalls: 20, minTokens: 9000 } }
+    }), 'utf-8')
+    writeProjectConfig({ bookmarks: { thresholds: { minToolCalls: 5 } } })
+
+    const { config, sources } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+
+    expect(config.bookmarks.enabled).toBe(true)
+    expect(config.bookmarks.thresholds.minToolCalls).toBe(5)
+    expect(config.bookmarks.thresholds.minTokens).toBe(9000)
+    expect(sources['bookmarks.enabled']).toBe('global')
+    expect(sources['bookmarks.thresholds.minToolCalls']).toBe('project')
+    expect(sources['bookmarks.thresholds.minTokens']).toBe('global')
+    expect(sources['bookmarks.thresholds.minSeconds']).toBe('default')
+  })
+
+  test('env vars override project config', () => {
+    writeProjectConfig({ bookmarks: { thresholds: { minToolCalls: 5 } } })
+
+    const { config, sources } = resolveConfig({
+      globalPath,
+      cwd: projectDir,
+      env: { TAV_BOOKMARKS_THRESHOLDS_MIN_TOOL_CALLS: '8', TAV_CONTEXT_GUARD_ENABLED: 'true' }
+    })
+
+    expect(config.bookmarks.thresholds.minToolCalls).toBe(8)
+    expect(config.contextGuard.enabled).toBe(true)
+    expect(sources['bookmarks.thresholds.minToolCalls']).toBe('env')
+    expect(sources['contextGuard.enabled']).toBe('env')
+  })
+
+  test('invalid project value falls back to the global value, not the default', () => {
+    writeFileSync(globalPath, JSON.stringify({
+      bookmarks: { thresholds: { minToolCalls: 20 } }
+    }), 'utf-8')
+    writeProjectConfig({ bookmarks: { thresholds: { minToolCalls: 'banana' } } })
+
+    const { config, sources } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+
+    expect(config.bookmarks.thresholds.minToolCalls).toBe(20)
+    expect(sources['bookmarks.thresholds.minToolCalls']).toBe('global')
+  })
+
+  test('value equal to the layer below is still attributed to the setting layer', () => {
+    writeProjectConfig({ bookmarks: { thresholds: { minToolCalls: 15 } } })
+
+    const { sources } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+    expect(sources['bookmarks.thresholds.minToolCalls']).toBe('project')
+  })
+
+  test('legacy conversion is attributed to the layer that declared it', () => {
+    writeProjectConfig({ contextGuard: { compactThreshold: 30000 } })
+
+    const { config, sources } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+    expect(config.contextGuard.compactPercent).toBe(0.60)
+    expect(sources['contextGuard.compactPercent']).toBe('project')
+  })
+
+  test('unparseable project config is ignored, other layers still apply', () => {
+    writeFileSync(globalPath, JSON.stringify({ bookmarks: { enabled: true } }), 'utf-8')
+    mkdirSync(join(projectDir, '.claude'), { recursive: true })
+    writeFileSync(join(projectDir, '.claude', 'tav.json'), '{ nope', 'utf-8')
+
+    const { config } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+    expect(config.bookmarks.enabled).toBe(true)
+  })
+
+  test('project layer is skipped when cwd is not provided', () => {
+    writeProjectConfig({ bookmarks: { enabled: true } })
+
+    const { config } = resolveConfig({ globalPath, env: {} })
+    expect(config.bookmarks.enabled).toBe(false)
+  })
+
+  test('loadConfig applies the project layer when cwd is given', () => {
+    writeProjectConfig({ contextGuard: { denyPercent: 0.9 } })
+    expect(loadConfig(globalPath, projectDir).contextGuard.denyPercent).toBe(0.9)
+  })
+
+  test('model context windows merge across layers by key', () => {
+    writeFileSync(globalPath, JSON.stringify({
+      contextGuard: { modelContextWindows: { 'claude-sonnet-4-5': 1000000 } }
+    }), 'utf-8')
+    writeProjectConfig({ contextGuard: { modelContextWindows: { 'claude-opus-4': 500000 } } })
+
+    const { config, sources, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {} })
+
+    expect(issues).toEqual([])
+    expect(config.contextGuard.modelContextWindows['claude-sonnet-4-5']).toBe(1000000)
+    expect(config.contextGuard.modelContextWindows['claude-opus-4']).toBe(500000)
+    expect(config.contextGuard.modelContextWindows['claude-haiku-4']).toBe(200000)
+    expect(sources['contextGuard.modelContextWindows']).toBe('project')
+  })
+
+  test('invalid model window entry keeps the value from the layer below', () => {
+    writeProjectConfig({ contextGuard: { modelContextWindows: { 'claude-opus-4': 0, 'my-model': 'big' } } })
+
+    const { config, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+
+    expect(config.contextGuard.modelContextWindows['claude-opus-4']).toBe(200000)
+    expect(config.contextGuard.modelContextWindows['my-model']).toBeUndefined()
+    expect(issues.map(i => [i.path, i.kind])).toEqual([
+      ['contextGuard.modelContextWindows.claude-opus-4', 'rejected'],
+      ['contextGuard.modelContextWindows.my-model', 'rejected'],
+    ])
+  })
+
+  test('tool weights accept zero and reject negative weights', () => {
+    writeProjectConfig({ bookmarks: { thresholds: { toolWeights: { 'mcp__*': 0, Edit: 2, Glob: -1 } } } })
+
+    const { config, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+
+    expect(config.bookmarks.thresholds.toolWeights).toEqual({ 'mcp__*': 0, Edit: 2 })
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({
+      path: 'bookmarks.thresholds.toolWeights.Glob',
+      kind: 'rejected',
+      reason: 'must be a non-negative number',
+    })
+  })
+
+  test('mutating tools replace the default list and reject empty entries', () => {
+    writeProjectConfig({ bookmarks: { mutationBoundary: { enabled: true, mutatingTools: ['Edit', 'mcp__fs__write*'] } } })
+    writeFileSync(globalPath, JSON.stringify({ bookmarks: { mutationBoundary: { mutatingTools: ['Write', ''] } } }), 'utf-8')
+
+    const { config, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+
+    expect(config.bookmarks.mutationBoundary.enabled).toBe(true)
+    expect(config.bookmarks.mutationBoundary.mutatingTools).toEqual(['Edit', 'mcp__fs__write*'])
+    expect(issues.map(i => [i.path, i.kind, i.reason])).toEqual([
+      ['bookmarks.mutationBoundary.mutatingTools', 'rejected', 'every entry must be a non-empty string'],
+    ])
+  })
+
+  test('injection command must contain the {text} placeholder', () => {
+    writeFileSync(globalPath, JSON.stringify({ injection: { command: 'send --to {target}', target: 7 } }), 'utf-8')
+
+    const { config, issues } = resolveConfig({ globalPath, env: {}, quiet: true })
+
+    expect(config.injection).toEqual(DEFAULT_CONFIG.injection)
+    expect(issues.map(i => [i.path, i.kind, i.reason])).toEqual([
+      ['injection.command', 'rejected', 'must contain the {text} placeholder'],
+      ['injection.target', 'rejected', 'expected a string, got number 7'],
+    ])
+  })
+
+  test('a project config cannot set the injection command or target', () => {
+    writeFileSync(globalPath, JSON.stringify({ injection: { command: 'send --to {target} {text}', target: 'box' } }), 'utf-8')
+    writeProjectConfig({ injection: { command: 'touch /tmp/pwned; true {text}', target: 'other', preflight: false } })
+
+    const { config, sources, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+
+    expect(config.injection).toEqual({ ...DEFAULT_CONFIG.injection, command: 'send --to {target} {text}', target: 'box', preflight: false })
+    expect(sources['injection.command']).toBe('global')
+    expect(issues.map(i => [i.path, i.source, i.kind, i.result])).toEqual([
+      ['injection.command', 'project', 'rejected', 'send --to {target} {text}'],
+      ['injection.target', 'project', 'rejected', 'box'],
+    ])
+  })
+
+  test('guard bands fill in defaults and drop invalid entries', () => {
+    writeProjectConfig({
+      contextGuard: {
+        bands: [
+          { percent: 0.7, action: 'warn' },
+          { percent: 0.92, action: 'deny', except: ['Edit', 'Write'] },
+          { percent: 88, action: 'deny' },
+          { percent: 0.8, action: 'block' },
+          { percent: 0.8, action: 'deny', tools: 'Task' },
+          { percent: 0.9, action: 'deny', tool: ['WebFetch'] },
+        ],
+      },
+    })
+
+    const { config, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+
+    expect(config.contextGuard.bands).toEqual([
+      { percent: 0.7, action: 'warn', tools: ['*'], except: [], unboundedOnly: false },
+      { percent: 0.92, action: 'deny', tools: ['*'], except: ['Edit', 'Write'], unboundedOnly: false },
+    ])
+    expect(issues.map(i => [i.path, i.reason])).toEqual([
+      ['contextGuard.bands[2]', 'percent must be a ratio between 0 and 1 (e.g. 0.8)'],
+      ['contextGuard.bands[3]', 'action must be one of warn, deny'],
+      ['contextGuard.bands[4]', 'tools and except must be arrays of tool names or globs'],
+      ['contextGuard.bands[5]', 'unknown key "tool" (did you mean "tools"?)'],
+    ])
+  })
+
+  test('readGuard accepts only deny, warn or off', () => {
+    writeProjectConfig({ contextGuard: { readGuard: 'block' } })
+    const { config, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+    expect(config.contextGuard.readGuard).toBe('deny')
+    expect(issues.map(i => [i.path, i.reason])).toEqual([
+      ['contextGuard.readGuard', 'expected one of deny, warn, off, got string "block"'],
+    ])
+  })
+
+  test('agent policies merge by key and drop invalid entries', () => {
+    writeFileSync(globalPath, JSON.stringify({ contextGuard: { agentPolicy: { Explore: { denyPercent: 0.95 }, Plan: { maxConcurrent: 2 } } } }), 'utf-8')
+    writeProjectConfig({ contextGuard: { agentPolicy: { 'general-purpose': { maxConcurrent: '2' }, Plan: { maxConcurrent: 1.5 }, Explore: { maxConcurent: 1 } } } })
+
+    const { config, issues } = resolveConfig({ globalPath, cwd: projectDir, env: {}, quiet: true })
+
+    expect(config.contextGuard.agentPolicy).toEqual({
+      Explore: { denyPercent: 0.95 },
+      Plan: { maxConcurrent: 2 },
+      'general-purpose': { maxConcurrent: 2 },
+    })
+    expect(issues.map(i => [i.path, i.reason])).toEqual([
+      ['contextGuard.agentPolicy.Explore', 'unknown key "maxConcurent" (did you mean "maxConcurrent"?)'],
+      ['contextGuard.agentPolicy.Plan', 'maxConcurrent must be a whole number (0 = unlimited)'],
+    ])
+  })
+
+  test('guard bands can be set from an env var', () => {
+    const { config } = resolveConfig({ globalPath, env: { TAV_CONTEXT_GUARD_BANDS: '[{"percent":0.8,"action":"deny","tools":["Task"]}]' } })
+    expect(config.contextGuard.bands).toEqual([{ percent: 0.8, action: 'deny', tools: ['Task'], except: [], unboundedOnly: false }])
+  })
+
+  test('injection command can be set from an env var', () => {
+    const { config } = resolveConfig({ globalPath, env: { TAV_INJECTION_COMMAND: 'send {text}' } })
+    expect(config.injection.command).toBe('send {text}')
+  })
+
+  test('model context windows can be set from a JSON env var', () => {
+    const { config } = resolveConfig({
+      globalPath,
+      env: { TAV_CONTEXT_GUARD_MODEL_CONTEXT_WINDOWS: '{"claude-sonnet-4-5":1000000}' }
+    })
+    expect(config.contextGuard.modelContextWindows['claude-sonnet-4-5']).toBe(1000000)
+  })
+
+  test('envVarName maps camelCase paths to upper snake case', () => {
+    expect(envVarName('bookmarks.thresholds.minToolCalls')).toBe('TAV_BOOKMARKS_THRESHOLDS_MIN_TOOL_CALLS')
+    expect(envVarName('contextGuard.compactPercent')).toBe('TAV_CONTEXT_GUARD_COMPACT_PERCENT')
+    expect(envVarName('sessionLocation.terminals.iterm2.tabVerification')).toBe('TAV_SESSION_LOCATION_TERMINALS_ITERM2_TAB_VERIFICATION')
+  })
+})
+
+describe('unknown config keys', () => {
+  let tempDir: string
+  let globalPath: string
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `tav-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(tempDir, { recursive: true })
+    globalPath = join(tempDir, 'config.json')
+  })
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  test('reports misspelled section and field names with suggestions', () => {
+    writeFileSync(globalPath, JSON.stringify({
+      contextguard: { enabled: true },
+      bookmarks: { thresholds: { minToolcalls: 5 } },
+    }), 'utf-8')
+
+    const { config, issues } = resolveConfig({ globalPath, env: {}, quiet: true })
+
+    expect(config).toEqual(DEFAULT_CONFIG)
+    expect(issues).toHaveLength(2)
+    expect(issues[0]).toMatchObject({
+      path: 'contextguard',
+      kind: 'unknown',
+      reason: 'unknown key (did you mean "contextGuard"?)',
+    })
+    expect(issues[1]).toMatchObject({
+      path: 'bookmarks.thresholds.minToolcalls',
+      kind: 'unknown',
+      reason: 'unknown key (did you mean "minToolCalls"?)',
+    })
+  })
+
+  test('accepts $schema and legacy contextGuard keys', () => {
+    writeFileSync(globalPath, JSON.stringify({
+      $schema: './schema/config.schema.json',
+      contextGuard: { compactThreshold: 30000 },
+    }), 'utf-8')
+
+    const { issues } = resolveConfig({ globalPath, env: {}, quiet: true })
+    expect(issues.filter(i => i.kind === 'unknown')).toEqual([])
+  })
+
+  test('suggestConfigKey finds close matches only', () => {
+    const known = ['enabled', 'marker', 'thresholds']
+    expect(suggestConfigKey('Enabled', known)).toBe('enabled')
+    expect(suggestConfigKey('treshold', known)).toBe('thresholds')
+    expect(suggestConfigKey('colour', known)).toBeNull()
+  })
+})
+
+describe('config JSON schema', () => {
+  const schema = JSON.parse(
+    readFileSync(join(__dirname, '..', 'schema', 'config.schema.json'), 'utf-8')
+  ) as Record<string, any>
+
+  /** Collects leaf property schemas keyed by dotted path */
+  function schemaLeaves(node: Record<string, any>, prefix: string = ''): Record<string, Record<string, any>> {
+    const leaves: Record<string, Record<string, any>> = {}
+    for (const [key, child] of Object.entries(node.properties ?? {}) as Array<[string, Record<string, any>]>) {
+      const path = prefix ? `${prefix}.${key}` : key
+      if (child.type === 'object' && child.properties) {
+        Object.assign(leaves, schemaLeaves(child, path))
+      } else {
+        leaves[path] = child
+      }
+    }
+    return leaves
+  }
+
+  function configLeaves(obj: Record<string, unknown>, prefix: string = ''): Record<string, unknown> {
+    const leaves: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(obj)) {
+      const path = prefix ? `${prefix}.${key}` : key
+      const isSection = !CONFIG_MAP_SECTIONS.includes(path) && Object.keys(value ?? {}).length > 0
+      if (value && typeof value === 'object' && !Array.isArray(value) && isSection) {
+        Object.assign(leaves, configLeaves(value as Record<string, unknown>, path))
+      } else {
+        leaves[path] = value
+      }
+    }
+    return leaves
+  }
+
+  const extras = ['$schema', 'contextGuard.compactThreshold', 'contextGuard.denyThreshold']
+
+  test('every TavConfig field is in the schema with matching type and default', () => {
+    const leaves = schemaLeaves(schema)
+    for (const [path, value] of Object.entries(configLeaves(DEFAULT_CONFIG as unknown as Record<string, unknown>))) {
+      expect(leaves[path]).toBeDefined()
+      const expectedType = Array.isArray(value) ? 'array' : typeof value
+      expect(`${path}: ${leaves[path].type}`).toBe(`${path}: ${expectedType}`)
+      expect(leaves[path].default).toEqual(value)
+    }
+  })
+
+  test('schema declares no fields beyond TavConfig and accepted extras', () => {
+    const known = Object.keys(configLeaves(DEFAULT_CONFIG as unknown as Record<string, unknown>))
+    for (const path of Object.keys(schemaLeaves(schema))) {
+      expect(known.includes(path) || extras.includes(path)).toBe(true)
+    }
+  })
+
+  test('schema rejects unknown keys at every level', () => {
+    function check(node: Record<string, any>): void {
+      if (node.type !== 'object' || !node.properties) return
+      expect(node.additionalProperties).toBe(false)
+      for (const child of Object.values(node.properties) as Array<Record<string, any>>) check(child)
+    }
+    check(schema)
+  })
+})
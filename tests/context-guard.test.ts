@@ -1,7 +1,7 @@
 import { describe, test, expect } from 'bun:test'
-import { evaluateContextPressure } from '../src/context-guard'
+import { evaluateContextPressure, evaluateReadCost, combineGuardOutputs, bandAppliesTo, resolveGuardBands } from '../src/context-guard'
 import { DEFAULT_CONFIG } from '../src/lib/config'
-import type { TavConfig } from '../src/lib/config'
+import type { TavConfig, GuardBand } from '../src/lib/config'
 
 /** Config with both features enabled — for testing active behaviour */
 const ACTIVE_CONFIG: TavConfig = {
@@ -85,4 +85,187 @@ describe('context-guard', () => {
     expect(result.permissionDecision).toBe('deny')
     expect(result.reason).toContain('100%')
   })
+  describe('bands', () => {
+    const LADDER: GuardBand[] = [
+      { percent: 0.70, action: 'warn', tools: ['*'], except: [], unboundedOnly: false },
+      { percent: 0.80, action: 'deny', tools: ['Task'], except: [], unboundedOnly: false },
+      { percent: 0.88, action: 'deny', tools: ['Read', 'WebFetch'], except: [], unboundedOnly: true },
+      { percent: 0.92, action: 'deny', tools: ['*'], except: ['Edit', 'Write'], unboundedOnly: false },
+    ]
+    const config: TavConfig = { ...ACTIVE_CONFIG, contextGuard: { ...ACTIVE_CONFIG.contextGuard, bands: LADDER } }
+
+    test('without bands the guard denies Task at denyPercent', () => {
+      expect(resolveGuardBands(DEFAULT_CONFIG.contextGuard)).toEqual([
+        { percent: 0.85, action: 'deny', tools: ['Task'], except: [], unboundedOnly: false },
+      ])
+    })
+
+    test('below every band nothing happens', () => {
+      expect(evaluateContextPressure(config, 0.60, 'Task')).toEqual({ continue: true })
+    })
+
+    test('a warn band adds a reminder without denying', () => {
+      const result = evaluateContextPressure(config, 0.75, 'Task')
+      expect(result.permissionDecision).toBeUndefined()
+      expect(result.hookSpecificOutput!.additionalContext).toContain('Context pressure is 75% (warning from 70%)')
+    })
+
+    test('each band denies its tools from its percent on', () => {
+      expect(evaluateContextPressure(config, 0.82, 'Task').reason).toContain('threshold: 80%')
+      expect(evaluateContextPressure(config, 0.82, 'Read').permissionDecision).toBeUndefined()
+
+      const read = evaluateContextPressure(config, 0.89, 'Read', null, { file_path: '/tmp/big.log' })
+      expect(read.permissionDecision).toBe('deny')
+      expect(read.reason).toContain('narrow the Read call with limit/offset')
+      expect(read.hookSpecificOutput!.additionalContext).toContain('denied this Read call')
+      expect(evaluateContextPressure(config, 0.89, 'Read', null, { file_path: '/tmp/big.log', limit: 100 }).permissionDecision).toBeUndefined()
+      expect(evaluateContextPressure(config, 0.89, 'WebFetch').permissionDecision).toBe('deny')
+      expect(evaluateContextPressure(config, 0.89, 'Bash').permissionDecision).toBeUndefined()
+    })
+
+    test('the top band leaves only exempt tools', () => {
+      expect(evaluateContextPressure(config, 0.93, 'Bash').reason).toContain('threshold: 92%')
+      expect(evaluateContextPressure(config, 0.93, 'Read', null, { limit: 50 }).permissionDecision).toBe('deny')
+      expect(evaluateContextPressure(config, 0.93, 'Edit').permissionDecision).toBeUndefined()
+      expect(evaluateContextPressure(config, 0.93, 'Write').hookSpecificOutput!.additionalContext).toContain('warning from 70%')
+    })
+
+    test('the highest reached band names the threshold', () => {
+      expect(evaluateContextPressure(config, 0.95, 'Task').reason).toContain('threshold: 92%')
+    })
+
+    test('tool patterns are globs', () => {
+      const band: GuardBand = { percent: 0.5, action: 'deny', tools: ['mcp__*'], except: ['mcp__memory__*'], unboundedOnly: false }
+      expect(bandAppliesTo(band, 'mcp__github__search')).toBe(true)
+      expect(bandAppliesTo(band, 'mcp__memory__read')).toBe(false)
+      expect(bandAppliesTo(band, 'Read')).toBe(false)
+    })
+  })
+
+  describe('agent policy', () => {
+    const config: TavConfig = {
+      ...ACTIVE_CONFIG,
+      contextGuard: {
+        ...ACTIVE_CONFIG.contextGuard,
+        agentPolicy: {
+          Explore: { denyPercent: 0.95 },
+          'general-purpose': { denyPercent: 0.70, maxConcurrent: 2 },
+          '*': { maxConcurrent: 1 },
+        },
+      },
+    }
+    const task = (subagent_type?: string) => subagent_type ? { subagent_type, prompt: 'go' } : { prompt: 'go' }
+
+    test('a per-type denyPercent replaces the Task threshold', () => {
+      expect(evaluateContextPressure(config, 0.90, 'Task', null, task('Explore')).permissionDecision).toBeUndefined()
+      expect(evaluateContextPressure(config, 0.96, 'Task', null, task('Explore')).reason).toContain('threshold: 95%')
+
+      const general = evaluateContextPressure(config, 0.75, 'Task', null, task('general-purpose'))
+      expect(general.reason).toContain('threshold: 70%')
+    })
+
+    test('types without a denyPercent keep the Task threshold', () => {
+      expect(evaluateContextPressure(config, 0.80, 'Task', null, task('Plan'))).toEqual({ continue: true })
+      expect(evaluateContextPressure(config, 0.86, 'Task', null, task('Plan')).reason).toContain('threshold: 85%')
+    })
+
+    test('maxConcurrent denies while enough agents of the type are running', () => {
+      const result = evaluateContextPressure(config, 0.10, 'Task', null, task('general-purpose'), { 'general-purpose': 2, Explore: 3 })
+      expect(result.permissionDecision).toBe('deny')
+      expect(result.reason).toBe('2 general-purpose agents are already running (max 2). Wait for one to return before spawning another.')
+
+      expect(evaluateContextPressure(config, 0.10, 'Task', null, task('general-purpose'), { 'general-purpose': 1 }).permissionDecision).toBeUndefined()
+      expect(evaluateContextPressure(config, 0.10, 'Task', null, task('Explore'), { Explore: 9 }).permissionDecision).toBeUndefined()
+    })
+
+    test('a glob policy caps every type it governs together', () => {
+      const running = { Plan: 1 }
+      expect(evaluateContextPressure(config, 0.10, 'Task', null, task('statusline-setup'), running).reason).toContain('max 1')
+      expect(evaluateContextPressure(config, 0.10, 'Task', null, task(), running).reason).toContain('1 unknown agent is already running')
+    })
+
+    test('policies apply only to Task', () => {
+      expect(evaluateContextPressure(config, 0.75, 'Read', null, { subagent_type: 'general-purpose' })).toEqual({ continue: true })
+    })
+  })
+
+  describe('read cost', () => {
+    // 4 MB ≈ 1M tokens; 0.5 of the window
+    const cost = { path: '/repo/logs/build.log', bytes: 4 * 1024 * 1024, tokens: 1048576, pressure: 0.5 }
+
+    test('denies a whole-file Read that would push pressure past denyPercent', () => {
+      const result = evaluateReadCost(ACTIVE_CONFIG, 0.4, cost, { file_path: cost.path })!
+      expect(result.permissionDecision).toBe('deny')
+      expect(result.reason).toContain('Reading build.log (4.0 MB, ~1048576 tokens) would push context pressure from 40% to 90% (threshold: 85%)')
+      expect(result.reason).toContain('limit/offset')
+    })
+
+    test('allows a file that fits', () => {
+      expect(evaluateReadCost(ACTIVE_CONFIG, 0.3, cost)).toBeNull()
+    })
+
+    test('allows a bounded Read', () => {
+      expect(evaluateReadCost(ACTIVE_CONFIG, 0.4, cost, { file_path: cost.path, offset: 1, limit: 200 })).toBeNull()
+    })
+
+    test('warn mode advises limit/offset without denying', () => {
+      const config = { ...ACTIVE_CONFIG, contextGuard: { ...ACTIVE_CONFIG.contextGuard, readGuard: 'warn' as const } }
+      const result = evaluateReadCost(config, 0.4, cost)!
+      expect(result.permissionDecision).toBeUndefined()
+      expect(result.hookSpecificOutput!.additionalContext).toContain('Use Read with limit/offset')
+    })
+
+    test('is off with the guard or readGuard off', () => {
+      const off = { ...ACTIVE_CONFIG, contextGuard: { ...ACTIVE_CONFIG.contextGuard, readGuard: 'off' as const } }
+      expect(evaluateReadCost(off, 0.4, cost)).toBeNull()
+      expect(evaluateReadCost(DEFAULT_CONFIG, 0.4, cost)).toBeNull()
+    })
+
+    test('reports the token estimate the cost was computed from', () => {
+      const result = evaluateReadCost(ACTIVE_CONFIG, 0.4, { ...cost, tokens: 700000 })!
+      expect(result.reason).toContain('(4.0 MB, ~700000 tokens)')
+    })
+
+    test('a read warning adds to a band warning instead of replacing it', () => {
+      const config = { ...ACTIVE_CONFIG, contextGuard: { ...ACTIVE_CONFIG.contextGuard, readGuard: 'warn' as const } }
+      const band = { continue: true, hookSpecificOutput: { hookEventName: 'PreToolUse', additionalContext: 'band warning' } }
+      const result = combineGuardOutputs(band, evaluateReadCost(config, 0.4, cost))
+      expect(result.hookSpecificOutput!.additionalContext).toStartWith('band warning\n<system-reminder>build.log is too large')
+      expect(combineGuardOutputs(band, null)).toBe(band)
+    })
+  })
+
+  describe('forecast', () => {
+    const forecast = {
+      current: 0.7,
+      samples: 3,
+      perTurn: 0.02,
+      perAgent: 0.08,
+      perMinute: 0.05,
+      turnsUntilCompact: 3,
+      turnsUntilDeny: 8,
+      agentsUntilCompact: 1,
+      agentsUntilDeny: 2,
+      minutesUntilCompact: 1.2,
+      minutesUntilDeny: 3,
+    }
+
+    test('denies Task when deny threshold is forecast within the horizon', () => {
+      const config = { ...ACTIVE_CONFIG, contextGuard: { ...ACTIVE_CONFIG.contextGuard, forecastHorizon: 2 } }
+      const result = evaluateContextPressure(config, 0.70, 'Task', forecast)
+      expect(result.permissionDecision).toBe('deny')
+      expect(result.reason).toContain('forecast to reach 85% within 2 steps')
+    })
+
+    test('allows Task when forecastHorizon is 0', () => {
+      const result = evaluateContextPressure(ACTIVE_CONFIG, 0.70, 'Task', forecast)
+      expect(result.permissionDecision).toBeUndefined()
+    })
+
+    test('allows Task when the forecast is beyond the horizon', () => {
+      const config = { ...ACTIVE_CONFIG, contextGuard: { ...ACTIVE_CONFIG.contextGuard, forecastHorizon: 1 } }
+      const result = evaluateContextPressure(config, 0.70, 'Task', forecast)
+      expect(result.permissionDecision).toBeUndefined()
+    })
+  })
 })
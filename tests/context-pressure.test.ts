@@ -2,16 +2,29 @@ import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
 import { mkdirSync, writeFileSync, rmSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
-import { readLastAssistantUsage, getContextPressure, resolveJsonlPath } from '../src/lib/context-pressure'
+import {
+  readLastAssistantUsage,
+  readLastAssistantEntry,
+  resolveContextWindow,
+  getContextPressure,
+  getContextSnapshot,
+  estimateResponsePressure,
+  resolveJsonlPath,
+} from '../src/lib/context-pressure'
 import type { ContextGuardConfig } from '../src/lib/config'
 
 const defaultContextGuard: ContextGuardConfig = {
   enabled: true,
   contextWindowTokens: 200000,
+  modelContextWindows: {},
   compactPercent: 0.76,
   denyPercent: 0.85,
   compactCooldownSeconds: 120,
   responseRatio: 0.25,
+  forecastHorizon: 0,
+  bands: [],
+  readGuard: 'deny',
+  agentPolicy: {},
 }
 
 describe('readLastAssistantUsage', () => {
@@ -250,9 +263,10 @@ describe('getContextPressure', () => {
     expect(pressure).toBe(1.0)
   })
 
-  test('returns 0 when contextWindowTokens is 0', () => {
+  test('contextWindowTokens 0 falls back to the default window when the model is unknown', () => {
     const config = { ...defaultContextGuard, contextWindowTokens: 0 }
-    expect(getContextPressure(null, 50000, config)).toBe(0)
+    // 25000 / (200000 × 0.25) = 0.5
+    expect(getContextPressure(null, 25000, config)).toBe(0.5)
   })
 
   test('falls back to cumulative when JSONL file does not exist', () => {
@@ -267,6 +281,99 @@ describe('getContextPressure', () => {
   })
 })
 
+describe('model context window detection', () => {
+  let tempDir: string
+
+  const autoGuard: ContextGuardConfig = {
+    ...defaultContextGuard,
+    contextWindowTokens: 0,
+    modelContextWindows: {
+      'claude-sonnet-4': 200000,
+      'claude-sonnet-4-5': 1000000,
+    },
+  }
+
+  function writeSession(...models: Array<string | undefined>): string {
+    const path = join(tempDir, 'session.jsonl')
+    const lines = models.map(model => JSON.stringify({
+      type: 'assistant',
+      message: { model, usage: { input_tokens: 100000, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 } },
+    }))
+    writeFileSync(path, lines.join('\n') + '\n')
+    return path
+  }
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `tav-cw-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(tempDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    try { rmSync(tempDir, { recursive: true, force: true }) } catch { /* ignore */ }
+  })
+
+  test('readLastAssistantEntry returns model of the latest entry', () => {
+    const path = writeSession('claude-opus-4-1', 'claude-sonnet-4-5-20250929')
+    expect(readLastAssistantEntry(path)).toEqual({ tokens: 100000, model: 'claude-sonnet-4-5-20250929' })
+  })
+
+  test('readLastAssistantEntry returns null model when missing', () => {
+    const path = writeSession(undefined)
+    expect(readLastAssistantEntry(path)).toEqual({ tokens: 100000, model: null })
+  })
+
+  test('longest matching prefix wins', () => {
+    expect(resolveContextWindow(autoGuard, 'claude-sonnet-4-5-20250929')).toEqual({ tokens: 1000000, source: 'model' })
+    expect(resolveContextWindow(autoGuard, 'claude-sonnet-4-20250514')).toEqual({ tokens: 200000, source: 'model' })
+  })
+
+  test('unknown or missing model uses the default window', () => {
+    expect(resolveContextWindow(autoGuard, 'gpt-x')).toEqual({ tokens: 200000, source: 'default' })
+    expect(resolveContextWindow(autoGuard, null)).toEqual({ tokens: 200000, source: 'default' })
+  })
+
+  test('contextWindowTokens overrides the model table', () => {
+    const config = { ...autoGuard, contextWindowTokens: 500000 }
+    expect(resolveContextWindow(config, 'claude-sonnet-4-5-20250929')).toEqual({ tokens: 500000, source: 'override' })
+  })
+
+  test('pressure follows a mid-session model switch', () => {
+    // 100000 tokens: 0.5 of a 200K window, 0.1 of a 1M window
+    expect(getContextPressure(writeSession('claude-sonnet-4-20250514'), 0, autoGuard)).toBe(0.5)
+    expect(getContextPressure(writeSession('claude-sonnet-4-20250514', 'claude-sonnet-4-5-20250929'), 0, autoGuard)).toBe(0.1)
+  })
+
+  test('snapshot reports model, window and source', () => {
+    const snapshot = getContextSnapshot(writeSession('claude-sonnet-4-5-20250929'), 0, autoGuard)
+    expect(snapshot).toEqual({
+      pressure: 0.1,
+      tokens: 100000,
+      model: 'claude-sonnet-4-5-20250929',
+      windowTokens: 1000000,
+      windowSource: 'model',
+    })
+  })
+
+  test('fallback estimate uses the default window when no JSONL is available', () => {
+    const snapshot = getContextSnapshot(null, 10000, autoGuard)
+    expect(snapshot.tokens).toBeNull()
+    expect(snapshot.windowSource).toBe('default')
+    expect(snapshot.pressure).toBe(0.2)
+  })
+})
+
+describe('estimateResponsePressure', () => {
+  const snapshot = { pressure: 0.5, tokens: 100000, model: null, windowTokens: 200000, windowSource: 'override' as const }
+
+  test('adds chars/4 tokens over the window when real tokens are known', () => {
+    expect(estimateResponsePressure(80000, snapshot, defaultContextGuard)).toBe(0.1)
+  })
+
+  test('scales by responseRatio on the estimate path, like the pressure itself', () => {
+    expect(estimateResponsePressure(80000, { ...snapshot, tokens: null }, defaultContextGuard)).toBe(0.4)
+  })
+})
+
 describe('resolveJsonlPath', () => {
   let tempDir: string
 
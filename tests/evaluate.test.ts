@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test'
-import { shouldInjectBookmark, shouldCompact } from '../src/lib/evaluate'
+import { shouldInjectBookmark, shouldCompact, injectionRecordFields } from '../src/lib/evaluate'
 import { DEFAULT_CONFIG } from '../src/lib/config'
 import type { TavConfig, ContextGuardConfig } from '../src/lib/config'
 import type { LogMetrics } from '../src/lib/log'
@@ -22,7 +22,12 @@ function defaultMetrics(): LogMetrics {
     lastBookmarkAt: 0,
     lastCompactionAt: 0,
     lastLineIsBookmark: false,
-    recentAgentTimestamps: []
+    recentAgentTimestamps: [],
+    toolStats: {},
+    cumulativeToolStats: {},
+    mutationBoundaryRun: 0,
+    injections: { attempted: 0, landed: 0, lost: 0, skipped: 0, consecutiveLost: 0, orphanedAt: 0 },
+    runningAgents: {},
   }
 }
 
@@ -113,6 +118,109 @@ describe('shouldInjectBookmark', () => {
   })
 })
 
+describe('injection trigger', () => {
+  test('reports which threshold triggered', () => {
+    const metrics = { ...defaultMetrics(), toolCalls: 20 }
+    const result = shouldInjectBookmark({ config: ACTIVE_CONFIG, metrics, injectionMethod: 'tmux' })
+    expect(result.trigger).toBe('tools')
+  })
+
+  test('injectionRecordFields snapshots reason, trigger and window metrics', () => {
+    const metrics = { ...defaultMetrics(), estimatedTokens: 6100, toolCalls: 7, elapsedSeconds: 42, agentReturns: 1 }
+    const result = shouldInjectBookmark({ config: ACTIVE_CONFIG, metrics, injectionMethod: 'tmux' })
+    expect(injectionRecordFields(result, metrics)).toEqual({
+      reason: 'token threshold met (6100 >= 6000)',
+      trigger: 'tokens',
+      tok: '6100',
+      tools: '7',
+      secs: '42',
+      agents: '1',
+    })
+  })
+})
+
+describe('shouldInjectBookmark mutation boundary', () => {
+  const BOUNDARY_CONFIG: TavConfig = {
+    ...ACTIVE_CONFIG,
+    bookmarks: {
+      ...ACTIVE_CONFIG.bookmarks,
+      mutationBoundary: { ...DEFAULT_CONFIG.bookmarks.mutationBoundary, enabled: true, minReadOnlyRun: 3 },
+    },
+  }
+
+  test('injects at a boundary below every threshold once the turn ended', () => {
+    const metrics = { ...defaultMetrics(), toolCalls: 4, mutationBoundaryRun: 3 }
+    const result = shouldInjectBookmark({ config: BOUNDARY_CONFIG, metrics, injectionMethod: 'tmux', turnEnded: true })
+    expect(result.shouldInject).toBe(true)
+    expect(result.reason).toContain('mutation boundary')
+    expect(result.trigger).toBe('boundary')
+  })
+
+  test('leaves a boundary pending mid-turn', () => {
+    const metrics = { ...defaultMetrics(), toolCalls: 4, mutationBoundaryRun: 3 }
+    const result = shouldInjectBookmark({ config: BOUNDARY_CONFIG, metrics, injectionMethod: 'tmux' })
+    expect(result.shouldInject).toBe(false)
+  })
+
+  test('ignores a read-only run shorter than minReadOnlyRun', () => {
+    const metrics = { ...defaultMetrics(), toolCalls: 3, mutationBoundaryRun: 2 }
+    const result = shouldInjectBookmark({ config: BOUNDARY_CONFIG, metrics, injectionMethod: 'tmux', turnEnded: true })
+    expect(result.shouldInject).toBe(false)
+  })
+
+  test('ignores boundaries when disabled', () => {
+    const metrics = { ...defaultMetrics(), toolCalls: 4, mutationBoundaryRun: 3 }
+    const result = shouldInjectBookmark({ config: ACTIVE_CONFIG, metrics, injectionMethod: 'tmux', turnEnded: true })
+    expect(result.shouldInject).toBe(false)
+  })
+
+  test('boundary still respects cooldown', () => {
+    const metrics = { ...defaultMetrics(), mutationBoundaryRun: 5, lastBookmarkAt: Date.now() - 3000 }
+    const result = shouldInjectBookmark({ config: BOUNDARY_CONFIG, metrics, injectionMethod: 'tmux', turnEnded: true })
+    expect(result.shouldInject).toBe(false)
+    expect(result.reason).toContain('cooldown')
+  })
+})
+
+describe('shouldInjectBookmark retry', () => {
+  const RETRY_CONFIG: TavConfig = {
+    ...ACTIVE_CONFIG,
+    bookmarks: { ...ACTIVE_CONFIG.bookmarks, retry: { enabled: true, maxAttempts: 2 } },
+  }
+
+  function lostMetrics(consecutiveLost: number): LogMetrics {
+    const orphanedAt = Date.now() - 40000
+    return {
+      ...defaultMetrics(),
+      lastInjectionAt: orphanedAt,
+      injections: { attempted: consecutiveLost, landed: 0, lost: consecutiveLost, skipped: 0, consecutiveLost, orphanedAt },
+    }
+  }
+
+  test('retries an orphaned injection despite cooldown', () => {
+    const result = shouldInjectBookmark({ config: RETRY_CONFIG, metrics: lostMetrics(1), injectionMethod: 'tmux' })
+    expect(result.shouldInject).toBe(true)
+    expect(result.trigger).toBe('retry')
+    expect(result.reason).toContain('attempt 1 of 2')
+  })
+
+  test('gives up after maxAttempts consecutive losses', () => {
+    const result = shouldInjectBookmark({ config: RETRY_CONFIG, metrics: lostMetrics(3), injectionMethod: 'tmux' })
+    expect(result.shouldInject).toBe(false)
+  })
+
+  test('does not retry when disabled', () => {
+    const result = shouldInjectBookmark({ config: ACTIVE_CONFIG, metrics: lostMetrics(1), injectionMethod: 'tmux' })
+    expect(result.shouldInject).toBe(false)
+  })
+
+  test('does not retry while the injection may still land', () => {
+    const metrics = { ...defaultMetrics(), lastInjectionAt: Date.now() - 5000 }
+    const result = shouldInjectBookmark({ config: RETRY_CONFIG, metrics, injectionMethod: 'tmux' })
+    expect(result.shouldInject).toBe(false)
+  })
+})
+
 describe('shouldCompact', () => {
   const activeCG: ContextGuardConfig = ACTIVE_CONFIG.contextGuard
 
@@ -223,6 +331,79 @@ describe('shouldCompact', () => {
     expect(result.reason).toContain('injection method')
   })
 
+  describe('forecast', () => {
+    const steepForecast = {
+      current: 0.6,
+      samples: 4,
+      perTurn: 0.1,
+      perAgent: 0.03,
+      perMinute: 0.05,
+      turnsUntilCompact: 2,
+      turnsUntilDeny: 3,
+      agentsUntilCompact: 6,
+      agentsUntilDeny: 9,
+      minutesUntilCompact: 3.2,
+      minutesUntilDeny: 5,
+    }
+
+    test('ignores the forecast when forecastHorizon is 0', () => {
+      const result = shouldCompact({
+        pressure: 0.60,
+        config: activeCG,
+        metrics: defaultMetrics(),
+        injectionMethod: 'tmux',
+        forecast: steepForecast
+      })
+      expect(result.shouldCompact).toBe(false)
+    })
+
+    test('compacts early when the threshold is forecast within the horizon', () => {
+      const result = shouldCompact({
+        pressure: 0.60,
+        config: { ...activeCG, forecastHorizon: 2 },
+        metrics: defaultMetrics(),
+        injectionMethod: 'tmux',
+        forecast: steepForecast
+      })
+      expect(result.shouldCompact).toBe(true)
+      expect(result.reason).toContain('forecast to reach compact threshold 76% within 2 steps')
+    })
+
+    test('does not compact when the forecast is beyond the horizon', () => {
+      const result = shouldCompact({
+        pressure: 0.60,
+        config: { ...activeCG, forecastHorizon: 1 },
+        metrics: defaultMetrics(),
+        injectionMethod: 'tmux',
+        forecast: steepForecast
+      })
+      expect(result.shouldCompact).toBe(false)
+    })
+
+    test('does not act on the forecast at low pressure', () => {
+      const result = shouldCompact({
+        pressure: 0.30,
+        config: { ...activeCG, forecastHorizon: 5 },
+        metrics: defaultMetrics(),
+        injectionMethod: 'tmux',
+        forecast: { ...steepForecast, current: 0.30, turnsUntilCompact: 5 }
+      })
+      expect(result.shouldCompact).toBe(false)
+    })
+
+    test('forecast compaction still respects cooldown', () => {
+      const result = shouldCompact({
+        pressure: 0.60,
+        config: { ...activeCG, forecastHorizon: 2 },
+        metrics: { ...defaultMetrics(), lastCompactionAt: Date.now() - 30000 },
+        injectionMethod: 'tmux',
+        forecast: steepForecast
+      })
+      expect(result.shouldCompact).toBe(false)
+      expect(result.reason).toContain('cooldown')
+    })
+  })
+
   test('works with custom compactPercent', () => {
     const config: ContextGuardConfig = { ...activeCG, compactPercent: 0.50 }
     const result = shouldCompact({
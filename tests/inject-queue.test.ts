@@ -0,0 +1,180 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync, readdirSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  enqueueInjection,
+  listQueuedInjections,
+  acquireInjectorLock,
+  refreshInjectorLock,
+  releaseInjectorLock,
+  drainInjectionQueue,
+  getQueueEntryPath,
+  getInjectorLockPath,
+  QUEUE_ENTRY_STALE_MS,
+  INJECTOR_LOCK_STALE_MS,
+} from '../src/lib/inject-queue'
+import { runInjector } from '../src/inject-runner'
+
+const SESSION = 'queue-session'
+
+describe('inject-queue', () => {
+  let stateDir: string
+
+  beforeEach(() => {
+    stateDir = join(tmpdir(), `tav-queue-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(stateDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true })
+  })
+
+  describe('enqueueInjection', () => {
+    test('deduplicates a pending request of the same kind', () => {
+      const now = Date.now()
+      expect(enqueueInjection(SESSION, { kind: 'bookmark', command: 'first', requestedAt: now }, stateDir)).toBe(true)
+      expect(enqueueInjection(SESSION, { kind: 'bookmark', command: 'second', requestedAt: now + 100 }, stateDir)).toBe(false)
+      expect(enqueueInjection(SESSION, { kind: 'compact', command: 'compact', requestedAt: now + 200 }, stateDir)).toBe(true)
+
+      expect(listQueuedInjections(SESSION, stateDir, now + 300).map(e => e.command)).toEqual(['compact', 'first'])
+    })
+
+    test('replaces a stale pending request', () => {
+      const now = Date.now()
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'old', requestedAt: now - QUEUE_ENTRY_STALE_MS }, stateDir)
+      expect(enqueueInjection(SESSION, { kind: 'bookmark', command: 'new', requestedAt: now }, stateDir)).toBe(true)
+      expect(JSON.parse(readFileSync(getQueueEntryPath(SESSION, 'bookmark', stateDir), 'utf-8')).command).toBe('new')
+    })
+
+    test('replaces an unreadable pending request and leaves no temp files', () => {
+      writeFileSync(getQueueEntryPath(SESSION, 'bookmark', stateDir), '{not json')
+      expect(enqueueInjection(SESSION, { kind: 'bookmark', command: 'new', requestedAt: Date.now() }, stateDir)).toBe(true)
+      expect(readdirSync(stateDir).filter(f => f.endsWith('.tmp'))).toEqual([])
+    })
+  })
+
+  describe('listQueuedInjections', () => {
+    test('orders compaction before bookmarks and drops stale entries', () => {
+      const now = Date.now()
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'bookmark', requestedAt: now - 1000 }, stateDir)
+      enqueueInjection(SESSION, { kind: 'compact', command: 'compact', requestedAt: now }, stateDir)
+      enqueueInjection('other-session', { kind: 'compact', command: 'other', requestedAt: now }, stateDir)
+
+      expect(listQueuedInjections(SESSION, stateDir, now).map(e => e.kind)).toEqual(['compact', 'bookmark'])
+      expect(listQueuedInjections(SESSION, stateDir, now + QUEUE_ENTRY_STALE_MS - 500).map(e => e.kind)).toEqual(['compact'])
+      expect(existsSync(getQueueEntryPath(SESSION, 'bookmark', stateDir))).toBe(false)
+    })
+
+    test('missing state dir is an empty queue', () => {
+      expect(listQueuedInjections(SESSION, join(stateDir, 'missing'))).toEqual([])
+    })
+  })
+
+  describe('injector lock', () => {
+    test('only one holder at a time', () => {
+      expect(acquireInjectorLock(SESSION, stateDir)).toBe(true)
+      expect(acquireInjectorLock(SESSION, stateDir)).toBe(false)
+      releaseInjectorLock(SESSION, stateDir)
+      expect(acquireInjectorLock(SESSION, stateDir)).toBe(true)
+    })
+
+    test('a stale lock is taken over', () => {
+      const now = Date.now()
+      writeFileSync(getInjectorLockPath(SESSION, stateDir), JSON.stringify({ pid: 1, acquiredAt: now - INJECTOR_LOCK_STALE_MS }))
+      expect(acquireInjectorLock(SESSION, stateDir, now)).toBe(true)
+    })
+
+    test('a refreshed lock is not stale', () => {
+      const now = Date.now()
+      expect(acquireInjectorLock(SESSION, stateDir, now - INJECTOR_LOCK_STALE_MS)).toBe(true)
+      expect(refreshInjectorLock(SESSION, stateDir, now)).toBe(true)
+      expect(acquireInjectorLock(SESSION, stateDir, now)).toBe(false)
+    })
+
+    test('only the holder can refresh or release the lock', () => {
+      const lockPath = getInjectorLockPath(SESSION, stateDir)
+      const otherLock = JSON.stringify({ pid: process.pid + 1, acquiredAt: Date.now() })
+      writeFileSync(lockPath, otherLock)
+
+      expect(refreshInjectorLock(SESSION, stateDir)).toBe(false)
+      releaseInjectorLock(SESSION, stateDir)
+      expect(readFileSync(lockPath, 'utf-8')).toBe(otherLock)
+    })
+  })
+
+  describe('drainInjectionQueue', () => {
+    test('runs every entry once, compaction first, then releases the lock', () => {
+      const now = Date.now()
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'bookmark', requestedAt: now }, stateDir)
+      enqueueInjection(SESSION, { kind: 'compact', command: 'compact', requestedAt: now }, stateDir)
+
+      const ran: string[] = []
+      expect(drainInjectionQueue(SESSION, command => ran.push(command), stateDir)).toBe(2)
+      expect(ran).toEqual(['compact', 'bookmark'])
+      expect(listQueuedInjections(SESSION, stateDir)).toEqual([])
+      expect(existsSync(getInjectorLockPath(SESSION, stateDir))).toBe(false)
+    })
+
+    test('picks up requests queued while running', () => {
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'bookmark', requestedAt: Date.now() }, stateDir)
+
+      const ran: string[] = []
+      drainInjectionQueue(SESSION, command => {
+        ran.push(command)
+        if (command === 'bookmark') {
+          enqueueInjection(SESSION, { kind: 'compact', command: 'compact', requestedAt: Date.now() }, stateDir)
+        }
+      }, stateDir)
+      expect(ran).toEqual(['bookmark', 'compact'])
+    })
+
+    test('does nothing while another injector holds the lock', () => {
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'bookmark', requestedAt: Date.now() }, stateDir)
+      acquireInjectorLock(SESSION, stateDir)
+
+      expect(drainInjectionQueue(SESSION, () => {}, stateDir)).toBe(0)
+      expect(listQueuedInjections(SESSION, stateDir)).toHaveLength(1)
+    })
+
+    test('stops, keeping the lock, once another injector took it over', () => {
+      const now = Date.now()
+      enqueueInjection(SESSION, { kind: 'compact', command: 'compact', requestedAt: now }, stateDir)
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'bookmark', requestedAt: now }, stateDir)
+      const lockPath = getInjectorLockPath(SESSION, stateDir)
+      const otherLock = JSON.stringify({ pid: process.pid + 1, acquiredAt: now })
+
+      const ran: string[] = []
+      drainInjectionQueue(SESSION, command => {
+        ran.push(command)
+        writeFileSync(lockPath, otherLock)
+      }, stateDir)
+      expect(ran).toEqual(['compact'])
+      expect(readFileSync(lockPath, 'utf-8')).toBe(otherLock)
+      expect(listQueuedInjections(SESSION, stateDir)).toHaveLength(1)
+    })
+
+    test('a failing command does not block the queue', () => {
+      const now = Date.now()
+      enqueueInjection(SESSION, { kind: 'compact', command: 'compact', requestedAt: now }, stateDir)
+      enqueueInjection(SESSION, { kind: 'bookmark', command: 'bookmark', requestedAt: now }, stateDir)
+
+      const ran: string[] = []
+      drainInjectionQueue(SESSION, command => {
+        ran.push(command)
+        throw new Error('send failed')
+      }, stateDir)
+      expect(ran).toEqual(['compact', 'bookmark'])
+    })
+  })
+
+  test('runInjector executes queued shell commands in order', () => {
+    const out = join(stateDir, 'out.txt')
+    const now = Date.now()
+    enqueueInjection(SESSION, { kind: 'bookmark', command: `echo bookmark >> '${out}'`, requestedAt: now }, stateDir)
+    enqueueInjection(SESSION, { kind: 'compact', command: `echo compact >> '${out}'`, requestedAt: now }, stateDir)
+
+    expect(runInjector(SESSION, stateDir)).toBe(2)
+    expect(readFileSync(out, 'utf-8')).toBe('compact\nbookmark\n')
+  })
+})
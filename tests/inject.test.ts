@@ -1,9 +1,14 @@
-import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { mkdirSync, readFileSync, rmSync, existsSync } from 'fs'
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, readFileSync, writeFileSync, chmodSync, rmSync, existsSync } from 'fs'
+import { execSync } from 'child_process'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import {
   isValidPaneId,
+  isValidKittyWindowId,
+  isValidWeztermPaneId,
+  renderCommandTemplate,
+  parseZellijTarget,
   sanitizeForShell,
   sanitizeForAppleScript,
   resolveTerminalProcessName,
@@ -12,10 +17,12 @@ import {
   detectSessionLocation,
   verifyLocation,
   buildInjectionCommand,
+  buildTmuxPreflight,
   spawnDetached,
   requestBookmark,
   requestCompaction,
 } from '../src/lib/inject'
+import * as inject from '../src/lib/inject'
 import type { InjectionConfig, SessionLocation } from '../src/lib/inject'
 import { getLogPath } from '../src/lib/log'
 import type { TavConfig } from '../src/lib/config'
@@ -26,12 +33,18 @@ describe('inject utilities', () => {
   let originalTmuxPane: string | undefined;
   let originalSty: string | undefined;
   let originalTermProgram: string | undefined;
+  // Terminals detected after tmux/screen — cleared so the host terminal
+  // can't leak into detection tests
+  const TERMINAL_ENV = ['KITTY_WINDOW_ID', 'KITTY_LISTEN_ON', 'WEZTERM_PANE', 'ZELLIJ', 'ZELLIJ_SESSION_NAME', 'ZELLIJ_PANE_ID'];
+  let originalTerminalEnv: Record<string, string | undefined>;
 
   beforeEach(() => {
     originalTmux = process.env.TMUX;
     originalTmuxPane = process.env.TMUX_PANE;
     originalSty = process.env.STY;
     originalTermProgram = process.env.TERM_PROGRAM;
+    originalTerminalEnv = Object.fromEntries(TERMINAL_ENV.map(key => [key, process.env[key]]));
+    for (const key of TERMINAL_ENV) delete process.env[key];
   });
 
   afterEach(() => {
@@ -56,6 +69,10 @@ describe('inject utilities', () => {
     } else {
       delete process.env.TERM_PROGRAM;
     }
+    for (const [key, value] of Object.entries(originalTerminalEnv)) {
+      if (value !== undefined) process.env[key] = value;
+      else delete process.env[key];
+    }
   });
 
   describe('isValidPaneId', () => {
@@ -77,6 +94,54 @@ describe('inject utilities', () => {
     });
   });
 
+  describe('isValidKittyWindowId', () => {
+    test('accepts numeric window IDs only', () => {
+      expect(isValidKittyWindowId('1')).toBe(true);
+      expect(isValidKittyWindowId('42')).toBe(true);
+      expect(isValidKittyWindowId('')).toBe(false);
+      expect(isValidKittyWindowId('id:1')).toBe(false);
+      expect(isValidKittyWindowId('1; rm -rf')).toBe(false);
+    });
+  });
+
+  describe('isValidWeztermPaneId', () => {
+    test('accepts numeric pane IDs only', () => {
+      expect(isValidWeztermPaneId('0')).toBe(true);
+      expect(isValidWeztermPaneId('12')).toBe(true);
+      expect(isValidWeztermPaneId('%1')).toBe(false);
+      expect(isValidWeztermPaneId('1 && reboot')).toBe(false);
+    });
+  });
+
+  describe('parseZellijTarget', () => {
+    test('splits session and pane at the last colon', () => {
+      expect(parseZellijTarget('work:3')).toEqual({ session: 'work', pane: '3' });
+      expect(parseZellijTarget('a:b:12')).toEqual({ session: 'a:b', pane: '12' });
+    });
+
+    test('rejects malformed targets', () => {
+      expect(parseZellijTarget('work')).toBeNull();
+      expect(parseZellijTarget(':3')).toBeNull();
+      expect(parseZellijTarget('work:terminal_3')).toBeNull();
+    });
+  });
+
+  describe('renderCommandTemplate', () => {
+    test('substitutes placeholders as quoted shell words', () => {
+      expect(renderCommandTemplate('my-sender --target {target} {text}', 'dev-box', '·'))
+        .toBe("my-sender --target 'dev-box' '·'");
+    });
+
+    test('escapes quotes and leaves other braces alone', () => {
+      expect(renderCommandTemplate("send {text} {pane}", '', "'; rm -rf ~; '"))
+        .toBe("send ''\\''; rm -rf ~; '\\''' {pane}");
+    });
+
+    test('substitutes every occurrence', () => {
+      expect(renderCommandTemplate('a {text} b {text}', '', '/compact')).toBe("a '/compact' b '/compact'");
+    });
+  });
+
   describe('sanitizeForShell', () => {
     test('escapes single quotes', () => {
       expect(sanitizeForShell("it's")).toBe("it'\\''s");
@@ -106,6 +171,91 @@ describe('inject utilities', () => {
       expect(result.target).toBe('12345.pts-0.hostname');
     });
 
+    test('returns kitty when KITTY_WINDOW_ID and KITTY_LISTEN_ON set', () => {
+      delete process.env.TMUX;
+      delete process.env.TMUX_PANE;
+      delete process.env.STY;
+      process.env.KITTY_WINDOW_ID = '7';
+      process.env.KITTY_LISTEN_ON = 'unix:/tmp/kitty-1000';
+
+      const result = detectInjectionMethod();
+      expect(result.method).toBe('kitty');
+      expect(result.target).toBe('7');
+    });
+
+    test('skips kitty without a remote control socket', () => {
+      delete process.env.TMUX;
+      delete process.env.TMUX_PANE;
+      delete process.env.STY;
+      delete process.env.TERM_PROGRAM;
+      process.env.KITTY_WINDOW_ID = '7';
+
+      expect(detectInjectionMethod().method).toBe('disabled');
+    });
+
+    test('returns wezterm when WEZTERM_PANE set', () => {
+      delete process.env.TMUX;
+      delete process.env.TMUX_PANE;
+      delete process.env.STY;
+      process.env.WEZTERM_PANE = '4';
+
+      const result = detectInjectionMethod();
+      expect(result.method).toBe('wezterm');
+      expect(result.target).toBe('4');
+    });
+
+    test('ignores an invalid WEZTERM_PANE', () => {
+      delete process.env.TMUX;
+      delete process.env.TMUX_PANE;
+      delete process.env.STY;
+      delete process.env.TERM_PROGRAM;
+      process.env.WEZTERM_PANE = 'pane-4';
+
+      expect(detectInjectionMethod().method).toBe('disabled');
+    });
+
+    test('returns custom when injection.command is set, even inside tmux', () => {
+      process.env.TMUX = '/tmp/tmux-1000/default,12345,0';
+      process.env.TMUX_PANE = '%0';
+
+      const result = detectInjectionMethod({ preflight: true, command: 'send {text}', target: 'box-1', delaySeconds: 1.5, adaptive: false, adaptiveTimeoutSeconds: 10 });
+      expect(result).toEqual({ method: 'custom', target: 'box-1' });
+    });
+
+    test('returns zellij with session:pane target', () => {
+      delete process.env.TMUX;
+      delete process.env.TMUX_PANE;
+      delete process.env.STY;
+      process.env.ZELLIJ = '0';
+      process.env.ZELLIJ_SESSION_NAME = 'quiet-otter';
+      process.env.ZELLIJ_PANE_ID = '2';
+
+      const result = detectInjectionMethod();
+      expect(result.method).toBe('zellij');
+      expect(result.target).toBe('quiet-otter:2');
+    });
+
+    test('zellij inside wezterm targets the zellij pane', () => {
+      delete process.env.TMUX;
+      delete process.env.TMUX_PANE;
+      delete process.env.STY;
+      process.env.WEZTERM_PANE = '4';
+      process.env.ZELLIJ = '0';
+      process.env.ZELLIJ_SESSION_NAME = 'quiet-otter';
+      process.env.ZELLIJ_PANE_ID = '2';
+
+      expect(detectInjectionMethod().method).toBe('zellij');
+    });
+
+    test('tmux inside kitty targets the tmux pane', () => {
+      process.env.TMUX = '/tmp/tmux-1000/default,12345,0';
+      process.env.TMUX_PANE = '%2';
+      process.env.KITTY_WINDOW_ID = '7';
+      process.env.KITTY_LISTEN_ON = 'unix:/tmp/kitty-1000';
+
+      expect(detectInjectionMethod().method).toBe('tmux');
+    });
+
     test('returns osascript on darwin with terminal process name as target', () => {
       delete process.env.TMUX;
       delete process.env.TMUX_PANE;
@@ -247,6 +397,51 @@ describe('inject utilities', () => {
       expect(command).toContain('\\n');
     });
 
+    test('returns kitty send-text command targeting the window', () => {
+      const command = buildInjectionCommand('kitty', '7', '·');
+      expect(command).toBe(`sleep 1.5 && kitty @ --to "$KITTY_LISTEN_ON" send-text --match 'id:7' -- '·\\r'`);
+    });
+
+    test('kitty command escapes backslashes and quotes in the marker', () => {
+      const command = buildInjectionCommand('kitty', '7', "a\\b'c");
+      expect(command).toContain("-- 'a\\\\b'\\''c\\r'");
+    });
+
+    test('returns wezterm send-text command targeting the pane', () => {
+      const command = buildInjectionCommand('wezterm', '4', '·');
+      expect(command).toBe(`sleep 1.5 && printf '%s\\r' '·' | wezterm cli send-text --pane-id '4' --no-paste`);
+    });
+
+    test('wezterm command passes the marker as a printf argument', () => {
+      // A % in the marker must not be read as a printf directive
+      const command = buildInjectionCommand('wezterm', '4', "50%'s");
+      expect(command).toContain("printf '%s\\r' '50%'\\''s'");
+    });
+
+    test('returns zellij command guarded by a pane focus check', () => {
+      const command = buildInjectionCommand('zellij', "it's:2", '·');
+      expect(command).toContain("zellij --session 'it'\\''s' action list-clients");
+      expect(command).toContain("'terminal_2([[:space:]]|$)'");
+      expect(command).toContain("action write-chars '·' && zellij --session 'it'\\''s' action write 13; fi");
+    });
+
+    test('renders the custom template for markers and /compact', () => {
+      const template = 'my-sender --target {target} {text}';
+      expect(buildInjectionCommand('custom', 'box-1', '·', { template }))
+        .toBe("sleep 1.5 && my-sender --target 'box-1' '·'");
+      expect(buildInjectionCommand('custom', 'box-1', '/compact', { template }))
+        .toBe("sleep 1.5 && my-sender --target 'box-1' '/compact'");
+    });
+
+    test('returns null for custom without a template', () => {
+      expect(buildInjectionCommand('custom', 'box-1', '·')).toBeNull();
+      expect(buildInjectionCommand('custom', 'box-1', '·', { template: '' })).toBeNull();
+    });
+
+    test('returns null for a malformed zellij target', () => {
+      expect(buildInjectionCommand('zellij', 'no-pane', '·')).toBeNull();
+    });
+
     test('returns null for osascript with empty target (prevents blind keystrokes)', () => {
       const command = buildInjectionCommand('osascript', '', '📖');
       expect(command).toBeNull();
@@ -301,6 +496,201 @@ describe('inject utilities', () => {
     });
   });
 
+  describe('injection timing', () => {
+    let fakeDir: string
+
+    const IDLE = ['╭──────────────────╮', '│ >                │', '╰──────────────────╯'].join('\n')
+    const BUSY = '✻ Thinking… (3s · esc to interrupt)\n' + IDLE
+
+    // Stand-in wezterm: get-text shows BUSY for the first `busyPolls` captures
+    beforeEach(() => {
+      fakeDir = join(tmpdir(), `tav-timing-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+      mkdirSync(fakeDir, { recursive: true })
+      writeFileSync(join(fakeDir, 'busy'), BUSY)
+      writeFileSync(join(fakeDir, 'idle'), IDLE)
+      writeFileSync(join(fakeDir, 'wezterm'), [
+        '#!/bin/sh',
+        'case "$2" in',
+        '  get-text) n=$(cat "$FAKE/polls" 2>/dev/null || echo 0); echo $((n+1)) > "$FAKE/polls"',
+        '    if [ "$n" -lt "$(cat "$FAKE/busyPolls")" ]; then cat "$FAKE/busy"; else cat "$FAKE/idle"; fi ;;',
+        '  send-text) cat >> "$FAKE/sent" ;;',
+        'esac',
+      ].join('\n'))
+      chmodSync(join(fakeDir, 'wezterm'), 0o755)
+    })
+
+    afterEach(() => {
+      rmSync(fakeDir, { recursive: true, force: true })
+    })
+
+    function inject(busyPolls: number, timeoutSeconds: number): { polls: number; sent: string } {
+      writeFileSync(join(fakeDir, 'busyPolls'), String(busyPolls))
+      const command = buildInjectionCommand('wezterm', '4', '·', { timing: { delaySeconds: 1.5, adaptive: true, timeoutSeconds } })!
+      execSync(command, {
+        env: { ...process.env, PATH: `${fakeDir}:${process.env.PATH}`, FAKE: fakeDir },
+        timeout: 5000,
+      })
+      return {
+        polls: Number(readFileSync(join(fakeDir, 'polls'), 'utf-8')),
+        sent: existsSync(join(fakeDir, 'sent')) ? readFileSync(join(fakeDir, 'sent'), 'utf-8') : '',
+      }
+    }
+
+    test('uses the configured fixed delay, capped at the maximum', () => {
+      const timing = { delaySeconds: 0.5, adaptive: false, timeoutSeconds: 10 }
+      expect(buildInjectionCommand('tmux', '%0', '·', { timing })).toStartWith('sleep 0.5 && tmux send-keys')
+      expect(buildInjectionCommand('screen', '12345', '·', { timing })).toStartWith('sleep 0.5 && screen')
+      expect(buildInjectionCommand('custom', '', '·', { timing, template: 'send {text}' })).toBe("sleep 0.5 && send '·'")
+      expect(buildInjectionCommand('tmux', '%0', '·', { timing: { ...timing, delaySeconds: 60 } })).toStartWith('sleep 10 && ')
+    })
+
+    test('adaptive timing falls back to the fixed delay without pane capture', () => {
+      const timing = { delaySeconds: 2, adaptive: true, timeoutSeconds: 10 }
+      expect(buildInjectionCommand('screen', '12345', '·', { timing })).toStartWith('sleep 2 && ')
+      expect(buildInjectionCommand('tmux', '%0', '·', { timing })).toContain("tmux capture-pane -p -t '%0'")
+      expect(buildInjectionCommand('kitty', '7', '·', { timing })).toContain(`kitty @ --to "$KITTY_LISTEN_ON" get-text --match 'id:7'`)
+    })
+
+    test('adaptive timing sends once the prompt is idle', () => {
+      expect(inject(2, 5)).toEqual({ polls: 3, sent: '·\r' })
+    })
+
+    test('adaptive timing sends anyway when the timeout runs out', () => {
+      expect(inject(100, 0.5)).toEqual({ polls: 2, sent: '·\r' })
+    })
+  })
+
+  describe('tmux preflight', () => {
+    let fakeDir: string
+    let logPath: string
+
+    const IDLE = ['● Done.', '', '╭──────────────────╮', '│ >                │', '╰──────────────────╯', '  ? for shortcuts'].join('\n')
+    const TYPING = IDLE.replace('│ >                │', '│ > fix the tests  │')
+
+    // Stand-in tmux: pane mode and screen come from files, sent keys are recorded
+    beforeEach(() => {
+      fakeDir = join(tmpdir(), `tav-preflight-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+      mkdirSync(fakeDir, { recursive: true })
+      logPath = join(fakeDir, 'session.log')
+      writeFileSync(join(fakeDir, 'tmux'), [
+        '#!/bin/sh',
+        'case "$1" in',
+        '  display-message) [ -f "$FAKE/gone" ] && exit 1; cat "$FAKE/mode" ;;',
+        '  capture-pane) cat "$FAKE/screen" ;;',
+        '  send-keys) echo "$*" >> "$FAKE/sent" ;;',
+        'esac',
+      ].join('\n'))
+      chmodSync(join(fakeDir, 'tmux'), 0o755)
+    })
+
+    afterEach(() => {
+      rmSync(fakeDir, { recursive: true, force: true })
+    })
+
+    function inject(mode: string, screen: string): { sent: string; log: string } {
+      writeFileSync(join(fakeDir, 'mode'), mode)
+      writeFileSync(join(fakeDir, 'screen'), screen)
+      const command = buildInjectionCommand('tmux', '%3', '·', { preflight: { logPath, injectedAt: 1234 } })!
+      execSync(command.replace('sleep 1.5 && ', ''), {
+        env: { ...process.env, PATH: `${fakeDir}:${process.env.PATH}`, FAKE: fakeDir },
+        timeout: 5000,
+      })
+      const read = (path: string) => existsSync(path) ? readFileSync(path, 'utf-8') : ''
+      return { sent: read(join(fakeDir, 'sent')), log: read(logPath) }
+    }
+
+    test('sends keys to an idle pane with an empty prompt', () => {
+      const { sent, log } = inject('0', IDLE)
+      expect(sent).toContain('send-keys -t %3 -l ·')
+      expect(sent).toContain('Enter')
+      expect(log).toBe('')
+    })
+
+    test('treats the placeholder suggestion as an empty prompt', () => {
+      const { sent } = inject('0', IDLE.replace('│ >                │', '│ > Try "refactor <filepath>" │'))
+      expect(sent).toContain('send-keys')
+    })
+
+    test('skips a pane in copy-mode', () => {
+      const { sent, log } = inject('1', IDLE)
+      expect(sent).toBe('')
+      expect(log).toMatch(/^X \d+000 inj=1234 reason=copy-mode\n$/)
+    })
+
+    test('skips while the user is typing', () => {
+      const { sent, log } = inject('0', TYPING)
+      expect(sent).toBe('')
+      expect(log).toContain('reason=input-pending')
+    })
+
+    test('skips while Claude is still running', () => {
+      const { log } = inject('0', '✻ Thinking… (3s · esc to interrupt)\n' + IDLE)
+      expect(log).toContain('reason=busy')
+    })
+
+    test('skips a permission dialog', () => {
+      const { sent, log } = inject('0', 'Do you want to make this edit to a.ts?\n❯ 1. Yes\n  2. No')
+      expect(sent).toBe('')
+      expect(log).toContain('reason=dialog')
+    })
+
+    test('sends keys when a question in the reply sits above an empty prompt', () => {
+      const { sent, log } = inject('0', '● The migration script is ready. Do you want to run it now?\n' + IDLE)
+      expect(sent).toContain('send-keys')
+      expect(log).toBe('')
+    })
+
+    test('skips when the pane is gone', () => {
+      writeFileSync(join(fakeDir, 'gone'), '')
+      const { log } = inject('0', IDLE)
+      expect(log).toContain('reason=no-pane')
+    })
+
+    test('is only added when requested', () => {
+      expect(buildInjectionCommand('tmux', '%3', '·')).not.toContain('pane_in_mode')
+      expect(buildTmuxPreflight("%3'; rm -rf /")).toContain("'%3'\\''; rm -rf /'")
+    })
+  })
+
+  describe('zellij focus check', () => {
+    let fakeDir: string
+
+    beforeEach(() => {
+      fakeDir = join(tmpdir(), `tav-zellij-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+      mkdirSync(fakeDir, { recursive: true })
+      // Stand-in zellij: `--session S action <cmd> ...`; list-clients prints the fixture
+      writeFileSync(join(fakeDir, 'zellij'), [
+        '#!/bin/sh',
+        'shift 3',
+        'if [ "$1" = list-clients ]; then cat "$FAKE/clients"; else echo "$*" >> "$FAKE/sent"; fi',
+      ].join('\n'))
+      chmodSync(join(fakeDir, 'zellij'), 0o755)
+    })
+
+    afterEach(() => {
+      rmSync(fakeDir, { recursive: true, force: true })
+    })
+
+    function inject(clients: string): string {
+      writeFileSync(join(fakeDir, 'clients'), clients)
+      const command = buildInjectionCommand('zellij', 'work:2', '·')!
+      execSync(command.replace('sleep 1.5 && ', ''), {
+        env: { ...process.env, PATH: `${fakeDir}:${process.env.PATH}`, FAKE: fakeDir },
+        timeout: 5000,
+      })
+      const sent = join(fakeDir, 'sent')
+      return existsSync(sent) ? readFileSync(sent, 'utf-8') : ''
+    }
+
+    test('types the marker when our pane is focused', () => {
+      expect(inject('CLIENT_ID ZELLIJ_PANE_ID RUNNING_COMMAND\n1         terminal_2     claude\n')).toBe('write-chars ·\nwrite 13\n')
+    })
+
+    test('sends nothing when another pane is focused', () => {
+      expect(inject('CLIENT_ID ZELLIJ_PANE_ID RUNNING_COMMAND\n1         terminal_21    vim\n')).toBe('')
+    })
+  })
+
   describe('spawnDetached', () => {
     test('does not throw on valid command', () => {
       expect(() => {
@@ -321,22 +711,30 @@ describe('inject utilities', () => {
       bookmarks: {
         enabled: true,
         marker: '·',
-        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25 }
+        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25, toolWeights: {} },
+        mutationBoundary: { enabled: false, mutatingTools: ['Edit', 'Write'], minReadOnlyRun: 3 },
+        retry: { enabled: false, maxAttempts: 1 }
       },
-      contextGuard: { enabled: true, contextWindowTokens: 200000, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25 },
+      contextGuard: { enabled: true, contextWindowTokens: 200000, modelContextWindows: {}, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25, forecastHorizon: 0, bands: [], readGuard: 'deny', agentPolicy: {} },
       sessionLocation: {
         enabled: false,
         verifyTab: false,
         terminals: { iterm2: { tabVerification: false }, terminal: { tabVerification: false } }
-      }
+      },
+      injection: { preflight: false, command: '', target: '', delaySeconds: 1.5, adaptive: false, adaptiveTimeoutSeconds: 10 }
     }
 
+    let spawnInjector: ReturnType<typeof spyOn>
+
     beforeEach(() => {
       tempDir = join(tmpdir(), `tav-inject-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
       mkdirSync(tempDir, { recursive: true })
+      // A real injector would outlive the test and re-create tempDir
+      spawnInjector = spyOn(inject, 'spawnInjector').mockImplementation(() => {})
     })
 
     afterEach(() => {
+      spawnInjector.mockRestore()
       if (existsSync(tempDir)) {
         rmSync(tempDir, { recursive: true, force: true })
       }
@@ -357,6 +755,33 @@ describe('inject utilities', () => {
       expect(logContent).toMatch(/^I \d+\n$/)
     })
 
+    test('records extra fields on the I event', () => {
+      const injection: InjectionConfig = { method: 'tmux', target: '%99' }
+      requestBookmark('test-session', injection, '·', undefined, mockConfig, tempDir, { reason: 'time threshold met (130 >= 120)' })
+
+      const logContent = readFileSync(getLogPath('test-session', tempDir), 'utf-8')
+      expect(logContent).toMatch(/^I \d+ reason=time%20threshold%20met%20\(130%20%3E%3D%20120\)\n$/)
+    })
+
+    test('queues the injection and deduplicates a pending bookmark', () => {
+      const injection: InjectionConfig = { method: 'tmux', target: '%99' }
+      expect(requestBookmark('test-session', injection, '·', undefined, mockConfig, tempDir)).toBe(true)
+      expect(existsSync(join(tempDir, 'test-session.bookmark.queue'))).toBe(true)
+
+      // Still pending — a second request adds no entry and no I record
+      expect(requestBookmark('test-session', injection, '·', undefined, mockConfig, tempDir)).toBe(false)
+      const logContent = readFileSync(getLogPath('test-session', tempDir), 'utf-8')
+      expect(logContent.trim().split('\n')).toHaveLength(1)
+      expect(spawnInjector).toHaveBeenCalledTimes(1)
+      expect(spawnInjector).toHaveBeenCalledWith('test-session', tempDir)
+    })
+
+    test('returns false for custom without a configured command', () => {
+      const injection: InjectionConfig = { method: 'custom', target: 'box-1' }
+      expect(requestBookmark('test-session', injection, '·', undefined, mockConfig, tempDir)).toBe(false)
+      expect(existsSync(getLogPath('test-session', tempDir))).toBe(false)
+    })
+
     test('does not write log when disabled', () => {
       const injection: InjectionConfig = { method: 'disabled', target: '' }
       requestBookmark('test-session', injection, '·', undefined, mockConfig, tempDir)
@@ -388,6 +813,38 @@ describe('inject utilities', () => {
       expect(location!.screenSession).toBe('12345.pts-0.hostname')
     })
 
+    test('detects kitty window from env', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      delete process.env.STY
+      process.env.KITTY_WINDOW_ID = '7'
+
+      const location = detectSessionLocation()
+      expect(location!.kittyWindow).toBe('7')
+    })
+
+    test('detects wezterm pane from env', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      delete process.env.STY
+      process.env.WEZTERM_PANE = '4'
+
+      expect(detectSessionLocation()!.weztermPane).toBe('4')
+    })
+
+    test('detects zellij session and pane from env', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      delete process.env.STY
+      process.env.ZELLIJ = '0'
+      process.env.ZELLIJ_SESSION_NAME = 'work'
+      process.env.ZELLIJ_PANE_ID = '2'
+
+      const location = detectSessionLocation()
+      expect(location!.zellijSession).toBe('work')
+      expect(location!.zellijPane).toBe('2')
+    })
+
     test('returns null when no location identifiers found', () => {
       delete process.env.TMUX
       delete process.env.TMUX_PANE
@@ -420,14 +877,17 @@ describe('inject utilities', () => {
       bookmarks: {
         enabled: true,
         marker: '·',
-        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25 }
+        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25, toolWeights: {} },
+        mutationBoundary: { enabled: false, mutatingTools: ['Edit', 'Write'], minReadOnlyRun: 3 },
+        retry: { enabled: false, maxAttempts: 1 }
       },
-      contextGuard: { enabled: true, contextWindowTokens: 200000, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25 },
+      contextGuard: { enabled: true, contextWindowTokens: 200000, modelContextWindows: {}, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25, forecastHorizon: 0, bands: [], readGuard: 'deny', agentPolicy: {} },
       sessionLocation: {
         enabled: true,
         verifyTab: false,
         terminals: { iterm2: { tabVerification: false }, terminal: { tabVerification: false } }
-      }
+      },
+      injection: { preflight: false, command: '', target: '', delaySeconds: 1.5, adaptive: false, adaptiveTimeoutSeconds: 10 }
     }
 
     const disabledConfig: TavConfig = {
@@ -436,7 +896,8 @@ describe('inject utilities', () => {
         enabled: false,
         verifyTab: false,
         terminals: { iterm2: { tabVerification: false }, terminal: { tabVerification: false } }
-      }
+      },
+      injection: { preflight: false, command: '', target: '', delaySeconds: 1.5, adaptive: false, adaptiveTimeoutSeconds: 10 }
     }
 
     test('returns true when feature disabled', () => {
@@ -465,6 +926,44 @@ describe('inject utilities', () => {
       expect(verifyLocation(declared, enabledConfig)).toBe(false)
     })
 
+    test('returns false when kitty window mismatches', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      delete process.env.STY
+      process.env.KITTY_WINDOW_ID = '8'
+
+      const declared: SessionLocation = { kittyWindow: '7', detectedAt: Date.now() }
+      expect(verifyLocation(declared, enabledConfig)).toBe(false)
+
+      process.env.KITTY_WINDOW_ID = '7'
+      expect(verifyLocation(declared, enabledConfig)).toBe(true)
+    })
+
+    test('returns false when wezterm pane mismatches', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      delete process.env.STY
+      process.env.WEZTERM_PANE = '5'
+
+      const declared: SessionLocation = { weztermPane: '4', detectedAt: Date.now() }
+      expect(verifyLocation(declared, enabledConfig)).toBe(false)
+    })
+
+    test('returns false when zellij pane mismatches', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      delete process.env.STY
+      process.env.ZELLIJ = '0'
+      process.env.ZELLIJ_SESSION_NAME = 'work'
+      process.env.ZELLIJ_PANE_ID = '3'
+
+      const declared: SessionLocation = { zellijSession: 'work', zellijPane: '2', detectedAt: Date.now() }
+      expect(verifyLocation(declared, enabledConfig)).toBe(false)
+
+      process.env.ZELLIJ_PANE_ID = '2'
+      expect(verifyLocation(declared, enabledConfig)).toBe(true)
+    })
+
     test('returns false when screen session mismatches', () => {
       delete process.env.TMUX
       delete process.env.TMUX_PANE
@@ -481,22 +980,30 @@ describe('inject utilities', () => {
       bookmarks: {
         enabled: true,
         marker: '·',
-        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25 }
+        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25, toolWeights: {} },
+        mutationBoundary: { enabled: false, mutatingTools: ['Edit', 'Write'], minReadOnlyRun: 3 },
+        retry: { enabled: false, maxAttempts: 1 }
       },
-      contextGuard: { enabled: true, contextWindowTokens: 200000, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25 },
+      contextGuard: { enabled: true, contextWindowTokens: 200000, modelContextWindows: {}, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25, forecastHorizon: 0, bands: [], readGuard: 'deny', agentPolicy: {} },
       sessionLocation: {
         enabled: false,
         verifyTab: false,
         terminals: { iterm2: { tabVerification: false }, terminal: { tabVerification: false } }
-      }
+      },
+      injection: { preflight: false, command: '', target: '', delaySeconds: 1.5, adaptive: false, adaptiveTimeoutSeconds: 10 }
     }
 
+    let spawnInjector: ReturnType<typeof spyOn>
+
     beforeEach(() => {
       tempDir = join(tmpdir(), `tav-inject-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
       mkdirSync(tempDir, { recursive: true })
+      // A real injector would outlive the test and re-create tempDir
+      spawnInjector = spyOn(inject, 'spawnInjector').mockImplementation(() => {})
     })
 
     afterEach(() => {
+      spawnInjector.mockRestore()
       if (existsSync(tempDir)) {
         rmSync(tempDir, { recursive: true, force: true })
       }
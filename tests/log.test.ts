@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
-import { mkdirSync, rmSync, writeFileSync, utimesSync } from 'fs'
+import { mkdirSync, rmSync, writeFileSync, readFileSync, appendFileSync, existsSync, utimesSync } from 'fs'
 import { join } from 'path'
 import { tmpdir } from 'os'
 import {
@@ -7,7 +7,16 @@ import {
   appendEvent,
   parseLog,
   cleanOldSessions,
-  meetsAnyThreshold
+  meetsAnyThreshold,
+  weightedToolCalls,
+  getLogPath,
+  getCheckpointPath,
+  formatRecord,
+  parseRecord,
+  appendRecord,
+  injectionSuccessRate,
+  AGENT_RUN_STALE_MS,
+  LOG_HEADER
 } from '../src/lib/log'
 import type { LogMetrics } from '../src/lib/log'
 import type { ThresholdConfig } from '../src/lib/config'
@@ -343,6 +352,371 @@ describe('log', () => {
     expect(parseLog('recent-session', testDir).toolCalls).toBe(1)  // File exists
   })
 
+  describe('log record format', () => {
+    test('formats positional fields then URI-encoded extras', () => {
+      expect(formatRecord({ type: 'T', ts: 1000, chars: 250, fields: {} })).toBe('T 1000 250')
+      expect(formatRecord({ type: 'B', ts: 2000, fields: {} })).toBe('B 2000')
+      expect(formatRecord({ type: 'T', ts: 1000, chars: 5, fields: { tool: 'mcp__x y', note: 'a=b' } }))
+        .toBe('T 1000 5 tool=mcp__x%20y note=a%3Db')
+    })
+
+    test('round-trips records with extras', () => {
+      const record = { type: 'A', ts: 3000, chars: 42, fields: { agent: 'Explore agent', pct: '0.5' } }
+      expect(parseRecord(formatRecord(record))).toEqual(record)
+    })
+
+    test('reads v0 lines as records without extras', () => {
+      expect(parseRecord('T 1000 100')).toEqual({ type: 'T', ts: 1000, chars: 100, fields: {} })
+      expect(parseRecord('I 3000')).toEqual({ type: 'I', ts: 3000, fields: {} })
+    })
+
+    test('keeps malformed positional fields tolerant', () => {
+      const record = parseRecord('A 2000 abc')!
+      expect(record.ts).toBe(2000)
+      expect(record.chars).toBeUndefined()
+      expect(Number.isNaN(parseRecord('T abc 100')!.ts)).toBe(true)
+    })
+
+    test('skips blank and header lines', () => {
+      expect(parseRecord('')).toBeNull()
+      expect(parseRecord(LOG_HEADER)).toBeNull()
+      expect(parseRecord('# comment')).toBeNull()
+    })
+
+    test('parseLog ignores the header and unknown extras', () => {
+      writeFileSync(getLogPath('v1-session', testDir), `${LOG_HEADER}\n`)
+      appendRecord('v1-session', { type: 'T', ts: 1000, chars: 400, fields: { future: 'x' } }, testDir)
+      appendRecord('v1-session', { type: 'A', ts: 2000, chars: 400, fields: { agent: 'Plan' } }, testDir)
+
+      const metrics = parseLog('v1-session', testDir)
+      expect(metrics.toolCalls).toBe(1)
+      expect(metrics.agentReturns).toBe(1)
+      expect(metrics.estimatedTokens).toBe(200)
+    })
+
+    test('parseLog reads mixed v0 and v1 lines in one log', () => {
+      appendEvent('mixed-session', 'T 1000 100', testDir)
+      appendRecord('mixed-session', { type: 'B', ts: 2000, fields: { label: 'after tests' } }, testDir)
+
+      const metrics = parseLog('mixed-session', testDir)
+      expect(metrics.lastLineIsBookmark).toBe(true)
+      expect(metrics.lastBookmarkAt).toBe(2000)
+      expect(metrics.toolCalls).toBe(0)
+    })
+
+    test('header-only log has zero metrics', () => {
+      writeFileSync(getLogPath('empty-session', testDir), `${LOG_HEADER}\n`)
+      const metrics = parseLog('empty-session', testDir)
+      expect(metrics.toolCalls).toBe(0)
+      expect(metrics.lastLineIsBookmark).toBe(false)
+    })
+  })
+
+  describe('per-tool stats', () => {
+    test('toolStats reset at bookmark, cumulativeToolStats at compaction', () => {
+      appendEvent('tools', 'T 1000 400 tool=Read', testDir)
+      appendEvent('tools', 'C 1500', testDir)
+      appendEvent('tools', 'T 2000 100 tool=Read', testDir)
+      appendEvent('tools', 'T 2500 50 tool=Bash', testDir)
+      appendEvent('tools', 'B 3000', testDir)
+      appendEvent('tools', 'T 4000 800 tool=Read', testDir)
+
+      const metrics = parseLog('tools', testDir)
+      expect(metrics.toolStats).toEqual({ Read: { count: 1, chars: 800 } })
+      expect(metrics.cumulativeToolStats).toEqual({
+        Read: { count: 2, chars: 900 },
+        Bash: { count: 1, chars: 50 },
+      })
+    })
+
+    test('T records without a tool name count as unknown', () => {
+      appendEvent('v0-tools', 'T 1000 100', testDir)
+      appendEvent('v0-tools', 'A 2000 100', testDir)
+
+      expect(parseLog('v0-tools', testDir).toolStats).toEqual({ unknown: { count: 1, chars: 100 } })
+    })
+
+    test('tool stats survive checkpoint resumption', () => {
+      appendEvent('tools-ckpt', 'T 1000 10 tool=Grep', testDir)
+      parseLog('tools-ckpt', testDir)
+      appendEvent('tools-ckpt', 'T 2000 20 tool=Grep', testDir)
+
+      expect(parseLog('tools-ckpt', testDir).toolStats).toEqual({ Grep: { count: 2, chars: 30 } })
+    })
+  })
+
+  describe('mutation boundary', () => {
+    test('reports the read-only run before a mutating call', () => {
+      appendEvent('mut', 'T 1000 10 tool=Read', testDir)
+      appendEvent('mut', 'T 2000 10 tool=Grep', testDir)
+      appendEvent('mut', 'T 3000 10 tool=Read', testDir)
+      appendEvent('mut', 'T 4000 10 tool=Edit mut=1', testDir)
+
+      expect(parseLog('mut', testDir).mutationBoundaryRun).toBe(3)
+    })
+
+    test('consecutive mutations are not boundaries', () => {
+      appendEvent('mut-run', 'T 1000 10 tool=Edit mut=1', testDir)
+      appendEvent('mut-run', 'T 2000 10 tool=Edit mut=1', testDir)
+
+      expect(parseLog('mut-run', testDir).mutationBoundaryRun).toBe(0)
+    })
+
+    test('boundary stays pending until the next bookmark', () => {
+      appendEvent('mut-after', 'T 1000 10 tool=Read', testDir)
+      appendEvent('mut-after', 'T 2000 10 tool=Write mut=1', testDir)
+      appendEvent('mut-after', 'T 3000 10 tool=Read', testDir)
+      appendEvent('mut-after', 'I 4000', testDir)
+
+      expect(parseLog('mut-after', testDir).mutationBoundaryRun).toBe(1)
+
+      appendEvent('mut-after', 'B 5000', testDir)
+      expect(parseLog('mut-after', testDir).mutationBoundaryRun).toBe(0)
+    })
+
+    test('keeps the longest read-only run among pending boundaries', () => {
+      appendEvent('mut-max', 'T 1000 10 tool=Read', testDir)
+      appendEvent('mut-max', 'T 2000 10 tool=Read', testDir)
+      appendEvent('mut-max', 'T 3000 10 tool=Edit mut=1', testDir)
+      appendEvent('mut-max', 'T 4000 10 tool=Read', testDir)
+      appendEvent('mut-max', 'T 5000 10 tool=Edit mut=1', testDir)
+
+      expect(parseLog('mut-max', testDir).mutationBoundaryRun).toBe(2)
+    })
+
+    test('bookmark resets the read-only run', () => {
+      appendEvent('mut-b', 'T 1000 10 tool=Read', testDir)
+      appendEvent('mut-b', 'T 2000 10 tool=Read', testDir)
+      appendEvent('mut-b', 'B 3000', testDir)
+      appendEvent('mut-b', 'T 4000 10 tool=Read', testDir)
+      appendEvent('mut-b', 'T 5000 10 tool=Edit mut=1', testDir)
+
+      expect(parseLog('mut-b', testDir).mutationBoundaryRun).toBe(1)
+    })
+  })
+
+  describe('injection outcomes', () => {
+    test('a B within the landing window acknowledges the injection', () => {
+      appendEvent('inj-ok', 'I 1000', testDir)
+      appendEvent('inj-ok', 'B 2500', testDir)
+
+      expect(parseLog('inj-ok', testDir).injections).toEqual({ attempted: 1, landed: 1, lost: 0, skipped: 0, consecutiveLost: 0, orphanedAt: 0 })
+    })
+
+    test('a B linked with inj= lands even outside the window', () => {
+      appendEvent('inj-link', 'I 1000', testDir)
+      appendEvent('inj-link', 'B 90000 inj=1000', testDir)
+
+      expect(parseLog('inj-link', testDir).injections.landed).toBe(1)
+    })
+
+    test('a late unlinked B counts the injection as lost', () => {
+      appendEvent('inj-late', 'I 1000', testDir)
+      appendEvent('inj-late', 'B 90000 label=manual', testDir)
+
+      const { injections } = parseLog('inj-late', testDir)
+      expect(injections.lost).toBe(1)
+      expect(injections.orphanedAt).toBe(0)
+    })
+
+    test('an unanswered injection past the window is orphaned', () => {
+      appendEvent('inj-orphan', 'I 1000', testDir)
+      appendEvent('inj-orphan', 'B 2000', testDir)
+      appendEvent('inj-orphan', 'I 60000', testDir)
+      appendEvent('inj-orphan', 'T 70000 10', testDir)
+
+      expect(parseLog('inj-orphan', testDir).injections).toEqual({ attempted: 2, landed: 1, lost: 1, skipped: 0, consecutiveLost: 1, orphanedAt: 60000 })
+    })
+
+    test('an injection still inside the window is pending, not lost', () => {
+      const now = Date.now()
+      appendEvent('inj-pending', `I ${now - 1000}`, testDir)
+
+      const { injections } = parseLog('inj-pending', testDir)
+      expect(injections.lost).toBe(0)
+      expect(injectionSuccessRate(injections)).toBeNull()
+    })
+
+    test('an injection the preflight skipped is neither landed nor lost', () => {
+      appendEvent('inj-skip', 'I 1000', testDir)
+      appendEvent('inj-skip', 'X 3000 inj=1000 reason=input-pending', testDir)
+      appendEvent('inj-skip', 'X 4000 inj=999 reason=busy', testDir)   // not the pending injection
+
+      expect(parseLog('inj-skip', testDir).injections).toEqual({ attempted: 1, landed: 0, lost: 0, skipped: 1, consecutiveLost: 0, orphanedAt: 0 })
+    })
+
+    test('a compaction the preflight skipped is undone', () => {
+      appendEvent('compact-skip', 'C 1000', testDir)
+      appendEvent('compact-skip', 'T 2000 400 tool=Read', testDir)
+      appendEvent('compact-skip', 'C 5000', testDir)
+      appendEvent('compact-skip', 'T 6000 40 tool=Read', testDir)
+      appendEvent('compact-skip', 'X 7000 inj=5000 reason=busy', testDir)
+
+      const metrics = parseLog('compact-skip', testDir)
+      expect(metrics.lastCompactionAt).toBe(1000)
+      expect(metrics.cumulativeEstimatedTokens).toBe(110)
+      expect(metrics.cumulativeToolStats).toEqual({ Read: { count: 2, chars: 440 } })
+      expect(metrics.injections.skipped).toBe(0)
+    })
+
+    test('consecutive losses accumulate until one lands', () => {
+      appendEvent('inj-streak', 'I 1000', testDir)
+      appendEvent('inj-streak', 'I 60000', testDir)
+      appendEvent('inj-streak', 'I 120000', testDir)
+
+      const lost = parseLog('inj-streak', testDir).injections
+      expect(lost.consecutiveLost).toBe(3)
+      expect(injectionSuccessRate(lost)).toBe(0)
+
+      appendEvent('inj-streak', 'I 200000', testDir)
+      appendEvent('inj-streak', 'B 201000', testDir)
+
+      const recovered = parseLog('inj-streak', testDir).injections
+      expect(recovered).toMatchObject({ attempted: 4, landed: 1, lost: 3, skipped: 0, consecutiveLost: 0 })
+      expect(injectionSuccessRate(recovered)).toBe(0.25)
+    })
+  })
+
+  describe('running agents', () => {
+    test('an S record starts an agent and its Task T record ends it', () => {
+      const now = Date.now()
+      appendEvent('agents', `S ${now - 5000} agent=Explore`, testDir)
+      appendEvent('agents', `S ${now - 4000} agent=Explore`, testDir)
+      appendEvent('agents', `S ${now - 3000} agent=general-purpose`, testDir)
+      appendEvent('agents', `S ${now - 2500}`, testDir)
+      appendEvent('agents', `T ${now - 2000} 900 tool=Task agent=Explore`, testDir)
+      appendEvent('agents', `T ${now - 1000} 100 tool=Read`, testDir)
+
+      expect(parseLog('agents', testDir).runningAgents).toEqual({ Explore: 1, 'general-purpose': 1, unknown: 1 })
+
+      appendEvent('agents', `T ${now - 500} 900 tool=Task agent=general-purpose`, testDir)
+      expect(parseLog('agents', testDir).runningAgents).toEqual({ Explore: 1, unknown: 1 })
+    })
+
+    test('an agent that never returned stops counting after AGENT_RUN_STALE_MS', () => {
+      const now = Date.now()
+      appendEvent('agents-stale', `S ${now - AGENT_RUN_STALE_MS - 1000} agent=Explore`, testDir)
+      appendEvent('agents-stale', `S ${now - 1000} agent=Explore`, testDir)
+
+      expect(parseLog('agents-stale', testDir).runningAgents).toEqual({ Explore: 1 })
+
+      // The stale start stays checkpointed: its late T ends it, not the live one
+      appendEvent('agents-stale', `T ${now - 500} 900 tool=Task agent=Explore`, testDir)
+      expect(parseLog('agents-stale', testDir).runningAgents).toEqual({ Explore: 1 })
+    })
+
+    test('an E record ends every outstanding agent without touching bookmark state', () => {
+      const now = Date.now()
+      appendEvent('agents-turn', `S ${now - 6000} agent=Explore`, testDir)
+      appendEvent('agents-turn', `S ${now - 5000}`, testDir)
+      appendEvent('agents-turn', `B ${now - 4000}`, testDir)
+      appendEvent('agents-turn', `E ${now - 3000}`, testDir)
+
+      const metrics = parseLog('agents-turn', testDir)
+      expect(metrics.runningAgents).toEqual({})
+      expect(metrics.lastLineIsBookmark).toBe(true)
+
+      appendEvent('agents-turn', `S ${now - 2000} agent=Plan`, testDir)
+      expect(parseLog('agents-turn', testDir).runningAgents).toEqual({ Plan: 1 })
+    })
+  })
+
+  describe('parseLog checkpoint', () => {
+    const sessionId = 'ckpt-session'
+
+    function tamperCheckpoint(toolCalls: number): void {
+      const path = getCheckpointPath(sessionId, testDir)
+      const checkpoint = JSON.parse(readFileSync(path, 'utf-8'))
+      checkpoint.state.toolCalls = toolCalls
+      writeFileSync(path, JSON.stringify(checkpoint))
+    }
+
+    test('writes a checkpoint at the end of the parsed log', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      parseLog(sessionId, testDir)
+
+      const checkpoint = JSON.parse(readFileSync(getCheckpointPath(sessionId, testDir), 'utf-8'))
+      expect(checkpoint.offset).toBe('T 1000 100\n'.length)
+      expect(checkpoint.state.toolCalls).toBe(1)
+    })
+
+    test('resumes from the checkpoint and parses only appended lines', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      parseLog(sessionId, testDir)
+      // Proves resumption: a checkpointed count the log can't produce survives
+      tamperCheckpoint(50)
+
+      appendEvent(sessionId, 'T 2000 100', testDir)
+      expect(parseLog(sessionId, testDir).toolCalls).toBe(51)
+    })
+
+    test('incremental results match a full parse', () => {
+      const lines = ['T 1000 400', 'A 2000 800', 'I 2500', 'B 3000', 'T 4000 40', 'C 5000', 'A 6000 400', 'T 7000 4']
+      for (const line of lines) {
+        appendEvent(sessionId, line, testDir)
+        parseLog(sessionId, testDir)
+      }
+      const incremental = parseLog(sessionId, testDir)
+
+      rmSync(getCheckpointPath(sessionId, testDir))
+      expect(incremental).toEqual(parseLog(sessionId, testDir))
+      expect(incremental.toolCalls).toBe(2)
+      expect(incremental.cumulativeEstimatedTokens).toBe(101)
+    })
+
+    test('rebuilds when the log was truncated', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      appendEvent(sessionId, 'T 2000 100', testDir)
+      parseLog(sessionId, testDir)
+      tamperCheckpoint(50)
+
+      writeFileSync(getLogPath(sessionId, testDir), 'A 3000 100\n')
+      const metrics = parseLog(sessionId, testDir)
+      expect(metrics.toolCalls).toBe(0)
+      expect(metrics.agentReturns).toBe(1)
+    })
+
+    test('rebuilds when the log was rewritten with different content', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      parseLog(sessionId, testDir)
+      tamperCheckpoint(50)
+
+      // Same length prefix, different bytes before the checkpoint offset
+      writeFileSync(getLogPath(sessionId, testDir), 'A 1000 100\nT 2000 100\n')
+      const metrics = parseLog(sessionId, testDir)
+      expect(metrics.toolCalls).toBe(1)
+      expect(metrics.agentReturns).toBe(1)
+    })
+
+    test('counts a trailing partial line without checkpointing it', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      appendFileSync(getLogPath(sessionId, testDir), 'T 2000 100')
+
+      expect(parseLog(sessionId, testDir).toolCalls).toBe(2)
+      const checkpoint = JSON.parse(readFileSync(getCheckpointPath(sessionId, testDir), 'utf-8'))
+      expect(checkpoint.offset).toBe('T 1000 100\n'.length)
+
+      appendFileSync(getLogPath(sessionId, testDir), '\nT 3000 100\n')
+      expect(parseLog(sessionId, testDir).toolCalls).toBe(3)
+    })
+
+    test('ignores an unreadable checkpoint', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      writeFileSync(getCheckpointPath(sessionId, testDir), '{ nope')
+      expect(parseLog(sessionId, testDir).toolCalls).toBe(1)
+    })
+
+    test('cleanOldSessions removes old checkpoints', () => {
+      appendEvent(sessionId, 'T 1000 100', testDir)
+      parseLog(sessionId, testDir)
+      const oldTime = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000)
+      utimesSync(getCheckpointPath(sessionId, testDir), oldTime, oldTime)
+
+      cleanOldSessions(7, testDir)
+      expect(existsSync(getCheckpointPath(sessionId, testDir))).toBe(false)
+    })
+  })
+
   describe('meetsAnyThreshold', () => {
     const baseMetrics: LogMetrics = {
       toolCalls: 0,
@@ -354,7 +728,12 @@ describe('log', () => {
       lastBookmarkAt: 0,
       lastCompactionAt: 0,
       lastLineIsBookmark: false,
-      recentAgentTimestamps: []
+      recentAgentTimestamps: [],
+      toolStats: {},
+      cumulativeToolStats: {},
+      mutationBoundaryRun: 0,
+      injections: { attempted: 0, landed: 0, lost: 0, skipped: 0, consecutiveLost: 0, orphanedAt: 0 },
+      runningAgents: {},
     }
 
     const thresholds: ThresholdConfig = {
@@ -362,7 +741,8 @@ describe('log', () => {
       minToolCalls: 15,
       minSeconds: 120,
       agentBurstThreshold: 3,
-      cooldownSeconds: 25
+      cooldownSeconds: 25,
+      toolWeights: {}
     }
 
     test('returns false when no threshold met', () => {
@@ -406,6 +786,36 @@ describe('log', () => {
       expect(result.met).toBe(false)
     })
 
+    test('tool weights scale the tool call metric', () => {
+      const weights = { ...thresholds, toolWeights: { Edit: 2, Glob: 0.25, 'mcp__*': 0.5 } }
+      const metrics = {
+        ...baseMetrics,
+        toolCalls: 16,
+        toolStats: {
+          Glob: { count: 12, chars: 1000 },
+          mcp__github__list: { count: 4, chars: 1000 },
+        }
+      }
+      // 12 × 0.25 + 4 × 0.5 = 5 — 16 raw calls no longer bookmark
+      expect(meetsAnyThreshold(metrics, weights).met).toBe(false)
+
+      const edits = { ...metrics, toolCalls: 22, toolStats: { ...metrics.toolStats, Edit: { count: 6, chars: 600 } } }
+      // 5 + 6 × 2 = 17
+      const result = meetsAnyThreshold(edits, weights)
+      expect(result.met).toBe(true)
+      expect(result.reason).toBe('tool call threshold met (weighted 17 >= 15)')
+    })
+
+    test('weightedToolCalls counts unlisted and untagged tools as 1', () => {
+      const metrics = {
+        ...baseMetrics,
+        toolCalls: 3,
+        toolStats: { Bash: { count: 2, chars: 10 }, unknown: { count: 1, chars: 5 } }
+      }
+      expect(weightedToolCalls(metrics, { Edit: 2 })).toBe(3)
+      expect(weightedToolCalls(metrics, {})).toBe(3)
+    })
+
     test('token threshold has priority (checked first)', () => {
       const result = meetsAnyThreshold({
         ...baseMetrics,
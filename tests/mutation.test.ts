@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'bun:test'
+import { isMutatingBashCommand, isMutatingToolCall } from '../src/lib/mutation'
+
+const MUTATING = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash']
+
+describe('mutation', () => {
+  describe('isMutatingBashCommand', () => {
+    test('read-only commands', () => {
+      expect(isMutatingBashCommand('ls -la')).toBe(false)
+      expect(isMutatingBashCommand('git status && git diff')).toBe(false)
+      expect(isMutatingBashCommand('grep -rn foo src | head -20')).toBe(false)
+      expect(isMutatingBashCommand('npm test 2>&1')).toBe(false)
+      expect(isMutatingBashCommand('bun test > /dev/null 2>&1')).toBe(false)
+      expect(isMutatingBashCommand('git log --format="%h -> %s"')).toBe(false)
+      expect(isMutatingBashCommand('sed -n 1,20p file.ts')).toBe(false)
+    })
+
+    test('output redirection to a file', () => {
+      expect(isMutatingBashCommand('echo hi > out.txt')).toBe(true)
+      expect(isMutatingBashCommand('cat a >> b')).toBe(true)
+    })
+
+    test('writing commands in command position', () => {
+      expect(isMutatingBashCommand('rm -rf dist')).toBe(true)
+      expect(isMutatingBashCommand('cd src && mv a.ts b.ts')).toBe(true)
+      expect(isMutatingBashCommand('find . -name "*.tmp" | xargs rm')).toBe(true)
+      expect(isMutatingBashCommand('sudo chmod +x run.sh')).toBe(true)
+      // Substrings of other words are not commands
+      expect(isMutatingBashCommand('npm run format')).toBe(false)
+    })
+
+    test('writing subcommands', () => {
+      expect(isMutatingBashCommand('git commit -m "wip"')).toBe(true)
+      expect(isMutatingBashCommand('git -C repo checkout main')).toBe(true)
+      expect(isMutatingBashCommand('npm install lodash')).toBe(true)
+      expect(isMutatingBashCommand('git show HEAD')).toBe(false)
+    })
+
+    test('in-place editors', () => {
+      expect(isMutatingBashCommand("sed -i 's/a/b/' file.ts")).toBe(true)
+      expect(isMutatingBashCommand("perl -pi -e 's/a/b/' file.ts")).toBe(true)
+    })
+  })
+
+  describe('isMutatingToolCall', () => {
+    test('listed tools mutate', () => {
+      expect(isMutatingToolCall('Edit', { file_path: 'a.ts' }, MUTATING)).toBe(true)
+      expect(isMutatingToolCall('Write', undefined, MUTATING)).toBe(true)
+    })
+
+    test('unlisted tools do not', () => {
+      expect(isMutatingToolCall('Read', { file_path: 'a.ts' }, MUTATING)).toBe(false)
+      expect(isMutatingToolCall('Edit', { file_path: 'a.ts' }, ['Write'])).toBe(false)
+    })
+
+    test('Bash mutates only when its command writes', () => {
+      expect(isMutatingToolCall('Bash', { command: 'ls' }, MUTATING)).toBe(false)
+      expect(isMutatingToolCall('Bash', { command: 'touch x' }, MUTATING)).toBe(true)
+      expect(isMutatingToolCall('Bash', undefined, MUTATING)).toBe(false)
+    })
+
+    test('globs match tool names', () => {
+      expect(isMutatingToolCall('mcp__fs__write_file', {}, ['mcp__fs__write*'])).toBe(true)
+      expect(isMutatingToolCall('mcp__fs__read_file', {}, ['mcp__fs__write*'])).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  appendPressureSample,
+  readPressureHistory,
+  forecastPressure,
+  recordPressureSample,
+  getPressureHistoryPath,
+  FORECAST_WINDOW,
+} from '../src/lib/pressure-history'
+import type { PressureSample } from '../src/lib/pressure-history'
+import { DEFAULT_CONFIG } from '../src/lib/config'
+
+const guard = { ...DEFAULT_CONFIG.contextGuard, enabled: true }
+
+function turns(...pressures: number[]): PressureSample[] {
+  return pressures.map((pressure, i) => ({ kind: 'turn', ts: 1000000 + i * 60000, pressure }))
+}
+
+describe('pressure history file', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `tav-ph-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(tempDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    try { rmSync(tempDir, { recursive: true, force: true }) } catch { /* ignore */ }
+  })
+
+  test('missing file is an empty history', () => {
+    expect(readPressureHistory('nope', tempDir)).toEqual([])
+  })
+
+  test('round-trips turn and agent samples', () => {
+    appendPressureSample('s1', { kind: 'turn', ts: 1000, pressure: 0.25 }, tempDir)
+    appendPressureSample('s1', { kind: 'agent', ts: 2000, pressure: 0.3 }, tempDir)
+
+    expect(readPressureHistory('s1', tempDir)).toEqual([
+      { kind: 'turn', ts: 1000, pressure: 0.25 },
+      { kind: 'agent', ts: 2000, pressure: 0.3 },
+    ])
+  })
+
+  test('skips malformed lines', () => {
+    writeFileSync(getPressureHistoryPath('s2', tempDir), 'S 1000 0.2\ngarbage\nA x 0.3\nS 3000 NaN\nS 4000 0.4\n')
+    expect(readPressureHistory('s2', tempDir).map(s => s.pressure)).toEqual([0.2, 0.4])
+  })
+
+  test('recordPressureSample appends and returns the updated forecast', () => {
+    expect(recordPressureSample('s3', 'turn', 0.2, guard, 0, tempDir)).toBeNull()
+    const forecast = recordPressureSample('s3', 'turn', 0.3, guard, 0, tempDir)
+    expect(forecast?.samples).toBe(2)
+    expect(forecast?.perTurn).toBeCloseTo(0.1)
+  })
+
+  test('recordPressureSample records nothing while the guard and forecasting are off', () => {
+    expect(recordPressureSample('s4', 'turn', 0.2, { ...guard, enabled: false, forecastHorizon: 0 }, 0, tempDir)).toBeNull()
+    expect(existsSync(getPressureHistoryPath('s4', tempDir))).toBe(false)
+  })
+
+  test('recordPressureSample keeps only the trailing FORECAST_WINDOW samples', () => {
+    for (let i = 0; i < FORECAST_WINDOW + 5; i++) {
+      recordPressureSample('s5', 'turn', 0.1 + i * 0.01, guard, 0, tempDir)
+    }
+    const history = readPressureHistory('s5', tempDir)
+    expect(history).toHaveLength(FORECAST_WINDOW)
+    expect(history[history.length - 1].pressure).toBeCloseTo(0.1 + (FORECAST_WINDOW + 4) * 0.01)
+  })
+})
+
+describe('forecastPressure', () => {
+  test('returns null with fewer than two samples', () => {
+    expect(forecastPressure([], guard)).toBeNull()
+    expect(forecastPressure(turns(0.5), guard)).toBeNull()
+  })
+
+  test('estimates per-turn growth and turns until thresholds', () => {
+    // +0.1/turn from 0.5 → compact 0.76 in 3 turns, deny 0.85 in 4
+    const forecast = forecastPressure(turns(0.3, 0.4, 0.5), guard)!
+    expect(forecast.current).toBe(0.5)
+    expect(forecast.perTurn).toBeCloseTo(0.1)
+    expect(forecast.perAgent).toBeNull()
+    expect(forecast.turnsUntilCompact).toBe(3)
+    expect(forecast.turnsUntilDeny).toBe(4)
+    expect(forecast.agentsUntilCompact).toBeNull()
+  })
+
+  test('estimates minutes until thresholds from wall-clock growth', () => {
+    // Samples one minute apart: +0.1/min from 0.5 → 2.6 minutes to 0.76
+    const forecast = forecastPressure(turns(0.3, 0.4, 0.5), guard)!
+    expect(forecast.perMinute).toBeCloseTo(0.1)
+    expect(forecast.minutesUntilCompact).toBeCloseTo(2.6)
+    expect(forecast.minutesUntilDeny).toBeCloseTo(3.5)
+  })
+
+  test('attributes deltas to the event that produced the later sample', () => {
+    const history: PressureSample[] = [
+      { kind: 'turn', ts: 1000, pressure: 0.3 },
+      { kind: 'agent', ts: 2000, pressure: 0.4 },
+      { kind: 'agent', ts: 3000, pressure: 0.5 },
+      { kind: 'turn', ts: 4000, pressure: 0.52 },
+    ]
+    const forecast = forecastPressure(history, guard)!
+    expect(forecast.perAgent).toBeCloseTo(0.1)
+    expect(forecast.perTurn).toBeCloseTo(0.02)
+    expect(forecast.agentsUntilCompact).toBe(3)
+  })
+
+  test('starts over after a compaction drop', () => {
+    const forecast = forecastPressure(turns(0.6, 0.7, 0.8, 0.2, 0.22), guard)!
+    expect(forecast.samples).toBe(2)
+    expect(forecast.perTurn).toBeCloseTo(0.02)
+  })
+
+  test('ignores samples at or before the last compaction marker', () => {
+    const history = turns(0.2, 0.4, 0.45, 0.5)
+    const forecast = forecastPressure(history, guard, history[1].ts)!
+    expect(forecast.samples).toBe(2)
+    expect(forecast.perTurn).toBeCloseTo(0.05)
+  })
+
+  test('reports 0 steps once a threshold is reached and null without growth', () => {
+    expect(forecastPressure(turns(0.7, 0.8), guard)!.turnsUntilCompact).toBe(0)
+    const flat = forecastPressure(turns(0.5, 0.5), guard)!
+    expect(flat.turnsUntilCompact).toBeNull()
+    expect(flat.minutesUntilCompact).toBeNull()
+  })
+
+  test('limits the trend to the most recent samples', () => {
+    // Slow early growth, steep recent growth — window keeps the last 12
+    const slow = Array.from({ length: 20 }, (_, i) => 0.1 + i * 0.001)
+    const steep = [0.15, 0.25, 0.35]
+    const forecast = forecastPressure(turns(...slow, ...steep), guard)!
+    expect(forecast.samples).toBe(12)
+    expect(forecast.perTurn!).toBeGreaterThan(0.02)
+  })
+})
@@ -20,6 +20,8 @@ import {
   hasTextContentBlock,
   findDeathIndex,
   hasExistingBookmarks,
+  findChainBookmarks,
+  formatChainBookmarks,
   DEFAULT_REPAIR_OPTIONS
 } from '../src/repair'
 import type { JournalEntry, SessionMetadata, ChainEntry } from '../src/repair'
@@ -1404,4 +1406,69 @@ describe('repair', () => {
       expect(result.warnings.some(w => w.includes('Death zone'))).toBe(true)
     })
   })
+
+  describe('findChainBookmarks', () => {
+    function toolUse(name: string) {
+      return { type: 'tool_use', id: `t-${Math.random()}`, name, input: {} }
+    }
+
+    function sessionChain(): ChainEntry[] {
+      const entries = [
+        makeUserEntry({ uuid: 'u0', parentUuid: undefined, timestamp: '2026-01-01T10:00:00.000Z' }),
+        makeEntry({ uuid: 'a1', parentUuid: 'u0', message: { role: 'assistant', content: [{ type: 'text', text: 'Reading the schema' }, toolUse('Read'), toolUse('Read')], usage: { input_tokens: 5000, output_tokens: 100 } } }),
+        makeUserEntry({ uuid: 'b1', parentUuid: 'a1', message: { role: 'user', content: '·' }, timestamp: '2026-01-01T10:05:00.000Z' }),
+        makeEntry({ uuid: 'a2', parentUuid: 'b1', message: { role: 'assistant', content: [toolUse('Edit')], usage: { input_tokens: 1000, cache_read_input_tokens: 80000, output_tokens: 50 } } }),
+        makeEntry({ uuid: 'a3', parentUuid: 'a2', message: { role: 'assistant', content: [{ type: 'text', text: 'Migration   is\nready' }] } }),
+        makeUserEntry({ uuid: 'b2', parentUuid: 'a3', message: { role: 'user', content: [{ type: 'text', text: '· before-migration' }] }, timestamp: '2026-01-01T10:09:00.000Z' }),
+        makeEntry({ uuid: 'a4', parentUuid: 'b2' })
+      ]
+      return buildChain(entries.map(entry => ({ entry })))
+    }
+
+    test('finds plain and labelled bookmarks with what preceded them', () => {
+      const bookmarks = findChainBookmarks(sessionChain(), '·')
+
+      expect(bookmarks.map(b => [b.number, b.uuid, b.chainIndex, b.label])).toEqual([
+        [1, 'b1', 2, null],
+        [2, 'b2', 5, 'before-migration']
+      ])
+      expect(bookmarks[0].toolsSince).toEqual({ Read: 2 })
+      expect(bookmarks[0].lastAssistantText).toBe('Reading the schema')
+      expect(bookmarks[0].contextTokens).toBe(5000)
+      expect(bookmarks[1].toolsSince).toEqual({ Edit: 1 })
+      expect(bookmarks[1].lastAssistantText).toBe('Migration   is\nready')
+      expect(bookmarks[1].contextTokens).toBe(81000)
+    })
+
+    test('finds synthetic bookmarks inserted by repair', () => {
+      const chain = sessionChain()
+      const synthetic = createSyntheticEntry(metadata, 'a4', '2026-01-01T10:10:00.000Z', '·')
+      chain.push({ entry: synthetic, fileIndex: chain.length })
+
+      const bookmarks = findChainBookmarks(chain, '·')
+      expect(bookmarks).toHaveLength(3)
+      expect(bookmarks[2].uuid).toBe(synthetic.uuid)
+      expect(bookmarks[2].toolsSince).toEqual({})
+    })
+
+    test('ignores prompts that are not bookmarks', () => {
+      const chain = buildChain([
+        { entry: makeUserEntry({ uuid: 'u0', parentUuid: undefined, message: { role: 'user', content: '·x' } }) }
+      ])
+      expect(findChainBookmarks(chain, '·')).toEqual([])
+    })
+
+    test('formats bookmarks with index reasons', () => {
+      const bookmarks = findChainBookmarks(sessionChain(), '·')
+      const indexed = new Map([['b1', { number: 1, uuid: 'b1', timestamp: '', label: null, reason: 'tool call threshold met (15 >= 15)', pressure: 0.42 }]])
+      const output = formatChainBookmarks(bookmarks, '·', indexed)
+
+      expect(output).toContain('#1  2026-01-01 10:05:00Z  ·')
+      expect(output).toContain('pressure 42%  reason: tool call threshold met (15 >= 15)')
+      expect(output).toContain('tools: Read×2')
+      expect(output).toContain('#2  2026-01-01 10:09:00Z  · before-migration')
+      expect(output).toContain('context 81.0K tokens')
+      expect(output).toContain('before: "Migration is ready"')
+    })
+  })
 })
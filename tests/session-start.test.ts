@@ -22,12 +22,18 @@ describe('session-start integration', () => {
   let originalTmuxPane: string | undefined
   let originalSty: string | undefined
   let originalTermProgram: string | undefined
+  // Terminals detected after tmux/screen — cleared so the host terminal
+  // can't leak into detection tests
+  const TERMINAL_ENV = ['KITTY_WINDOW_ID', 'KITTY_LISTEN_ON', 'WEZTERM_PANE', 'ZELLIJ', 'ZELLIJ_SESSION_NAME', 'ZELLIJ_PANE_ID']
+  let originalTerminalEnv: Record<string, string | undefined>
 
   beforeEach(() => {
     originalTmux = process.env.TMUX
     originalTmuxPane = process.env.TMUX_PANE
     originalSty = process.env.STY
     originalTermProgram = process.env.TERM_PROGRAM
+    originalTerminalEnv = Object.fromEntries(TERMINAL_ENV.map(key => [key, process.env[key]]))
+    for (const key of TERMINAL_ENV) delete process.env[key]
 
     // Clean slate
     if (existsSync(TEST_STATE_DIR)) {
@@ -45,6 +51,10 @@ describe('session-start integration', () => {
     else delete process.env.STY
     if (originalTermProgram !== undefined) process.env.TERM_PROGRAM = originalTermProgram
     else delete process.env.TERM_PROGRAM
+    for (const [key, value] of Object.entries(originalTerminalEnv)) {
+      if (value !== undefined) process.env[key] = value
+      else delete process.env[key]
+    }
 
     if (existsSync(TEST_STATE_DIR)) {
       rmSync(TEST_STATE_DIR, { recursive: true })
@@ -72,6 +82,16 @@ describe('session-start integration', () => {
       expect(result.target).toBe('54321.pts-1.hostname')
     })
 
+    test('screen takes priority over kitty', () => {
+      delete process.env.TMUX
+      delete process.env.TMUX_PANE
+      process.env.STY = '54321.pts-1.hostname'
+      process.env.KITTY_WINDOW_ID = '3'
+      process.env.KITTY_LISTEN_ON = 'unix:/tmp/kitty-1000'
+
+      expect(detectInjectionMethod().method).toBe('screen')
+    })
+
     test('osascript used on darwin when no multiplexer', () => {
       delete process.env.TMUX
       delete process.env.TMUX_PANE
@@ -92,10 +92,13 @@ describe('session', () => {
       bookmarks: {
         enabled: true,
         marker: '·',
-        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25 }
+        thresholds: { minTokens: 6000, minToolCalls: 15, minSeconds: 120, agentBurstThreshold: 3, cooldownSeconds: 25, toolWeights: {} },
+        mutationBoundary: { enabled: false, mutatingTools: ['Edit', 'Write'], minReadOnlyRun: 3 },
+        retry: { enabled: false, maxAttempts: 1 }
       },
-      contextGuard: { enabled: true, contextWindowTokens: 200000, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25 },
-      sessionLocation: { enabled: false, verifyTab: false, terminals: { iterm2: { tabVerification: false }, terminal: { tabVerification: false } } }
+      contextGuard: { enabled: true, contextWindowTokens: 200000, modelContextWindows: {}, compactPercent: 0.76, denyPercent: 0.85, compactCooldownSeconds: 120, responseRatio: 0.25, forecastHorizon: 0, bands: [], readGuard: 'deny' as const, agentPolicy: {} },
+      sessionLocation: { enabled: false, verifyTab: false, terminals: { iterm2: { tabVerification: false }, terminal: { tabVerification: false } } },
+      injection: { preflight: true, command: '', target: '', delaySeconds: 1.5, adaptive: false, adaptiveTimeoutSeconds: 10 }
     }
 
     const config: SessionConfig = {
@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { mkdirSync, rmSync, existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { appendRecord } from '../src/lib/log'
+import { collectBookmarkStats, formatBookmarkStats, runStatsCommand, median, UNKNOWN_TRIGGER } from '../src/stats-cli'
+
+describe('stats-cli', () => {
+  let stateDir: string
+
+  beforeEach(() => {
+    stateDir = join(tmpdir(), `tav-stats-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(stateDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(stateDir)) rmSync(stateDir, { recursive: true, force: true })
+  })
+
+  function inject(sessionId: string, ts: number, trigger: string, tok: number, landedAfterMs?: number) {
+    appendRecord(sessionId, { type: 'I', ts, fields: { reason: `${trigger} met`, trigger, tok: String(tok), tools: '4', secs: '60', agents: '0' } }, stateDir)
+    if (landedAfterMs !== undefined) {
+      appendRecord(sessionId, { type: 'B', ts: ts + landedAfterMs, fields: { inj: String(ts), pressure: '0.3000' } }, stateDir)
+    }
+  }
+
+  test('median of odd and even counts', () => {
+    expect(median([])).toBeNull()
+    expect(median([3, 1, 2])).toBe(2)
+    expect(median([4, 1, 2, 3])).toBe(2.5)
+  })
+
+  test('aggregates triggers, landings and metrics across sessions', () => {
+    inject('s1', 1000, 'tokens', 6000, 1600)
+    inject('s1', 50000, 'tokens', 7000, 2000)
+    inject('s2', 1000, 'tools', 3000)
+    appendRecord('s2', { type: 'B', ts: 90000, fields: { label: 'before-deploy' } }, stateDir)
+    // v0 injection without trigger
+    appendRecord('s3', { type: 'I', ts: 1000, fields: {} }, stateDir)
+
+    const stats = collectBookmarkStats(stateDir)
+
+    expect(stats.sessions).toBe(3)
+    expect(stats.labelled).toBe(1)
+    expect(stats.latencyMs.sort()).toEqual([1600, 2000])
+    expect(stats.triggers.map(t => [t.trigger, t.injected, t.landed])).toEqual([
+      ['tokens', 2, 2],
+      ['tools', 1, 0],
+      [UNKNOWN_TRIGGER, 1, 0],
+    ])
+    expect(stats.triggers[0].metrics.tok).toEqual([6000, 7000])
+  })
+
+  test('since excludes older records', () => {
+    inject('s1', 1000, 'tokens', 6000, 1500)
+    inject('s1', 100000, 'time', 2000, 1500)
+
+    const stats = collectBookmarkStats(stateDir, 50000)
+    expect(stats.triggers.map(t => t.trigger)).toEqual(['time'])
+  })
+
+  test('formats a per-trigger table', () => {
+    inject('s1', 1000, 'tokens', 6000, 1600)
+    inject('s1', 50000, 'tokens', 7000)
+
+    const output = formatBookmarkStats(collectBookmarkStats(stateDir), 7)
+
+    expect(output).toContain('across 1 session (last 7 days)')
+    expect(output).toMatch(/tokens\s+2\s+1\s+6500\s+4\s+60\s+0/)
+    expect(output).toMatch(/total\s+2\s+1/)
+    expect(output).toContain('Median injection → bookmark delay: 1.6s')
+  })
+
+  test('counts lost injections per session', () => {
+    inject('s1', 1000, 'tokens', 6000, 1500)
+    inject('s1', 100000, 'tokens', 6000)        // orphaned
+    inject('s2', 1000, 'tools', 3000)
+    inject('s2', 5000, 'tools', 3000, 2000)     // first one superseded → lost
+
+    const stats = collectBookmarkStats(stateDir)
+    expect(stats.perSession.map(s => [s.sessionId, s.attempted, s.landed, s.lost])).toEqual([
+      ['s1', 2, 1, 1],
+      ['s2', 2, 1, 1],
+    ])
+
+    const output = formatBookmarkStats(stats)
+    expect(output).toContain('Injection success by session')
+    expect(output).toMatch(/s1\s+2\s+1\s+1\s+0\s+50%/)
+  })
+
+  test('an injection still inside the landing window is not counted lost', () => {
+    inject('s1', Date.now() - 1000, 'tokens', 6000)
+
+    const [session] = collectBookmarkStats(stateDir).perSession
+    expect(session.lost).toBe(0)
+    expect(formatBookmarkStats(collectBookmarkStats(stateDir))).toMatch(/s1\s+1\s+0\s+0\s+0\s+-/)
+  })
+
+  test('counts injections skipped by the pane preflight', () => {
+    inject('s1', 1000, 'tokens', 6000)
+    appendRecord('s1', { type: 'X', ts: 3000, fields: { inj: '1000', reason: 'input-pending' } }, stateDir)
+
+    const [session] = collectBookmarkStats(stateDir).perSession
+    expect([session.skipped, session.lost]).toEqual([1, 0])
+  })
+
+  test('reports when nothing was injected', () => {
+    expect(formatBookmarkStats(collectBookmarkStats(join(stateDir, 'missing')))).toContain('No bookmark injections recorded')
+  })
+
+  test('runStatsCommand rejects a bad --days value', () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {})
+    expect(runStatsCommand(['--days', 'soon'], stateDir)).toBe(1)
+    error.mockRestore()
+  })
+
+  test('runStatsCommand prints the report', () => {
+    inject('s1', Date.now(), 'tokens', 6000, 1500)
+    const log = spyOn(console, 'log').mockImplementation(() => {})
+    expect(runStatsCommand(['--days', '1'], stateDir)).toBe(0)
+    expect(log.mock.calls[0][0]).toContain('tokens')
+    log.mockRestore()
+  })
+})
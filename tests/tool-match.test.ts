@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'bun:test'
+import { matchesToolPattern, findToolPattern, resolveToolWeight, isGlobPattern } from '../src/lib/tool-match'
+
+describe('tool-match', () => {
+  test('exact names match only themselves', () => {
+    expect(matchesToolPattern('Read', 'Read')).toBe(true)
+    expect(matchesToolPattern('Read', 'ReadMany')).toBe(false)
+    expect(matchesToolPattern('read', 'Read')).toBe(false)
+  })
+
+  test('globs match with * and ?', () => {
+    expect(matchesToolPattern('mcp__*', 'mcp__github__create_issue')).toBe(true)
+    expect(matchesToolPattern('mcp__*', 'Read')).toBe(false)
+    expect(matchesToolPattern('Gr?p', 'Grep')).toBe(true)
+    expect(matchesToolPattern('*', 'anything')).toBe(true)
+  })
+
+  test('regex metacharacters in patterns are literal', () => {
+    expect(matchesToolPattern('a.b*', 'a.bc')).toBe(true)
+    expect(matchesToolPattern('a.b*', 'axbc')).toBe(false)
+  })
+
+  test('isGlobPattern detects wildcards', () => {
+    expect(isGlobPattern('mcp__*')).toBe(true)
+    expect(isGlobPattern('Read')).toBe(false)
+  })
+
+  test('exact name beats glob, longer glob beats shorter', () => {
+    const patterns = ['mcp__*', 'mcp__github__*', 'mcp__github__get_me', '*']
+    expect(findToolPattern(patterns, 'mcp__github__get_me')).toBe('mcp__github__get_me')
+    expect(findToolPattern(patterns, 'mcp__github__list')).toBe('mcp__github__*')
+    expect(findToolPattern(patterns, 'mcp__slack__post')).toBe('mcp__*')
+    expect(findToolPattern(patterns, 'Bash')).toBe('*')
+    expect(findToolPattern(['Edit'], 'Bash')).toBeNull()
+  })
+
+  test('resolveToolWeight defaults unlisted tools to 1', () => {
+    const weights = { Edit: 2, Glob: 0.25, 'mcp__*': 0 }
+    expect(resolveToolWeight(weights, 'Edit')).toBe(2)
+    expect(resolveToolWeight(weights, 'Glob')).toBe(0.25)
+    expect(resolveToolWeight(weights, 'mcp__github__list')).toBe(0)
+    expect(resolveToolWeight(weights, 'Bash')).toBe(1)
+    expect(resolveToolWeight({}, 'Bash')).toBe(1)
+  })
+})